@@ -1,9 +1,36 @@
-import { useState, useCallback, useMemo, useEffect } from "react";
+import { useState, useCallback, useMemo, useEffect, useRef } from "react";
 import { FileUpload } from "@/components/FileUpload";
+import type { DataLoadOptions } from "@/components/FileUpload";
 import { MappedTable } from "@/components/MappedTable";
 import { CountryCombobox } from "@/components/CountryCombobox";
-import { mapData, validateMaxLengths, DEFAULT_COLUMN_MAPPING } from "@/lib/mapper";
-import type { MappedAddress, RawRow } from "@/lib/mapper";
+import { MappingProfiles } from "@/components/MappingProfiles";
+import { CompositeFieldEditor } from "@/components/CompositeFieldEditor";
+import { RecipientOptions } from "@/components/RecipientOptions";
+import { TransformEditor } from "@/components/TransformEditor";
+import { RowFilters } from "@/components/RowFilters";
+import { AddressTypeValues } from "@/components/AddressTypeValues";
+import { CountryAliases } from "@/components/CountryAliases";
+import { loadCountryAliases, saveCountryAliases } from "@/lib/countryMatching";
+import { suggestedCity } from "@/lib/germanPostalCodes";
+import { applyTransforms } from "@/lib/transforms";
+import type { Transform } from "@/lib/transforms";
+import { applyRowFilter } from "@/lib/filters";
+import type { FilterGroup } from "@/lib/filters";
+import {
+  buildWarnings,
+  columnLabel,
+  composeValue,
+  ownWarnings,
+  validateMaxLengths,
+  DEFAULT_COMPOSITE_SEPARATOR,
+  DEFAULT_MAPPING_OPTIONS,
+} from "@/lib/mapper";
+import type { CompositeField, MappedAddress, MappingOptions, RawRow } from "@/lib/mapper";
+import { mergeImports, tagSource } from "@/lib/importer";
+import { detectColumns } from "@/lib/headerMatching";
+import type { HeaderMatch, MatchConfidence } from "@/lib/headerMatching";
+import { formatProgress, runWorkerTask, TaskCancelledError } from "@/lib/workerClient";
+import type { TaskProgress } from "@/lib/workerClient";
 import {
   Card,
   CardContent,
@@ -29,28 +56,58 @@ import "./App.css";
 type TargetField = {
   key:
     | "salutation"
+    | "full_name"
     | "first_name"
     | "last_name"
+    | "organisation"
     | "street"
+    | "house_number"
     | "address_addition"
     | "postal_code"
     | "city"
-    | "country";
+    | "country"
+    | "address_type"
+    | "reference";
   label: string;
   required?: boolean;
+  // Required only while none of these alternative fields is mapped
+  requiredUnless?: TargetField["key"][];
 };
 
 const TARGET_FIELDS: TargetField[] = [
   { key: "salutation", label: "Anrede" },
-  { key: "first_name", label: "Vorname", required: true },
-  { key: "last_name", label: "Nachname", required: true },
+  { key: "full_name", label: "Vollständiger Name" },
+  { key: "first_name", label: "Vorname", requiredUnless: ["full_name", "organisation"] },
+  { key: "last_name", label: "Nachname", requiredUnless: ["full_name", "organisation"] },
+  { key: "organisation", label: "Firma" },
   { key: "street", label: "Straße", required: true },
+  { key: "house_number", label: "Hausnummer" },
   { key: "address_addition", label: "Adresszusatz" },
   { key: "postal_code", label: "PLZ", required: true },
   { key: "city", label: "Ort", required: true },
   { key: "country", label: "Land", required: true },
+  { key: "address_type", label: "Adresstyp" },
+  { key: "reference", label: "Referenz" },
 ];
 
+const isFieldRequired = (
+  field: TargetField,
+  selections: Partial<Record<TargetField["key"], string | undefined>>
+): boolean =>
+  Boolean(
+    field.required ||
+      (field.requiredUnless && !field.requiredUnless.some((key) => selections[key]))
+  );
+
+const fieldLabel = (key: TargetField["key"]): string =>
+  TARGET_FIELDS.find((field) => field.key === key)?.label ?? key;
+
+const CONFIDENCE_BADGE_CLASSES: Record<MatchConfidence, string> = {
+  high: "rounded-full bg-green-100 px-1.5 py-0.5 text-[10px] font-medium text-green-700 ring-1 ring-green-300",
+  medium: "rounded-full bg-amber-100 px-1.5 py-0.5 text-[10px] font-medium text-amber-700 ring-1 ring-amber-300",
+  low: "rounded-full bg-red-100 px-1.5 py-0.5 text-[10px] font-medium text-red-700 ring-1 ring-red-300",
+};
+
 const DEFAULT_SENDER: MappedAddress = {
   NAME: "",
   ZUSATZ: "",
@@ -82,54 +139,53 @@ function App() {
 
   const [mappedData, setMappedData] = useState<MappedAddress[]>(stored?.mappedData || []);
   const [rawData, setRawData] = useState<RawRow[]>(stored?.rawData || []);
-  const [sender, setSender] = useState<MappedAddress | null>(stored?.sender || DEFAULT_SENDER);
+  const [sender, setSender] = useState<MappedAddress | null>(
+    stored?.sender || {
+      ...DEFAULT_SENDER,
+      LAND: stored?.mappingOptions?.defaultCountry ?? DEFAULT_SENDER.LAND,
+    }
+  );
   const [headers, setHeaders] = useState<string[]>(stored?.headers || []);
   const [columnSelections, setColumnSelections] = useState<
     Partial<Record<TargetField["key"], string | undefined>>
   >(stored?.columnSelections || {});
+  const [columnMatches, setColumnMatches] = useState<
+    Partial<Record<TargetField["key"], HeaderMatch>>
+  >(stored?.columnMatches || {});
+  const [columnComposites, setColumnComposites] = useState<
+    Partial<Record<TargetField["key"], CompositeField>>
+  >(stored?.columnComposites || {});
+  const [mappingOptions, setMappingOptions] = useState<MappingOptions>({
+    ...DEFAULT_MAPPING_OPTIONS,
+    ...stored?.mappingOptions,
+  });
+  const [columnTransforms, setColumnTransforms] = useState<
+    Partial<Record<TargetField["key"], Transform[]>>
+  >(stored?.columnTransforms || {});
+  // Learned country names are kept across imports and "Clear all"
+  const [countryAliases, setCountryAliases] = useState<Record<string, string>>(loadCountryAliases);
+  const [rowFilter, setRowFilter] = useState<FilterGroup[]>(stored?.rowFilter || []);
+  const [editingTransforms, setEditingTransforms] = useState<TargetField["key"] | null>(null);
   const [warnings, setWarnings] = useState<{ [key: number]: string[] }>({});
   const [senderWarnings, setSenderWarnings] = useState<string[]>([]);
   const [error, setError] = useState<string>("");
+  // Mapping or validation running in the worker, shown with a cancel button
+  const [taskProgress, setTaskProgress] = useState<{ label: string; progress: TaskProgress } | null>(
+    null
+  );
+  const cancelTaskRef = useRef<(() => void) | null>(null);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
   const [showSenderDialog, setShowSenderDialog] = useState(false);
 
   const hasData = useMemo(() => mappedData.length > 0, [mappedData.length]);
 
-  const buildWarnings = useCallback((rows: MappedAddress[]) => {
-    const warningsMap: { [key: number]: string[] } = {};
-    const refIndexMap = new Map<number, number[]>();
-
-    rows.forEach((row, index) => {
-      const rowWarnings = validateMaxLengths(row);
-      if (rowWarnings.length > 0) {
-        warningsMap[index] = rowWarnings;
-      }
-
-      const indices = refIndexMap.get(row.REFERENZ) ?? [];
-      indices.push(index);
-      refIndexMap.set(row.REFERENZ, indices);
-    });
-
-    refIndexMap.forEach((indices) => {
-      if (indices.length > 1) {
-        indices.forEach((idx) => {
-          warningsMap[idx] = [
-            ...(warningsMap[idx] ?? []),
-            "REFERENZ must be unique",
-          ];
-        });
-      }
-    });
-
-    return warningsMap;
-  }, []);
-
   const buildMapping = useCallback(
     (selections: Partial<Record<TargetField["key"], string | undefined>>) => {
+      // Keyed by target: the same column may feed several fields
       const mapping: Record<string, string> = {};
       Object.entries(selections).forEach(([target, source]) => {
         if (source) {
-          mapping[source] = target;
+          mapping[target] = source;
         }
       });
       return mapping;
@@ -138,53 +194,70 @@ function App() {
   );
 
   const initSelections = useCallback((incomingHeaders: string[]) => {
-    const lowerHeaders = incomingHeaders.map((h) => h.toLowerCase());
-    const selections: Partial<Record<TargetField["key"], string>> = {};
+    const matches = detectColumns(
+      incomingHeaders,
+      TARGET_FIELDS.map((field) => field.key)
+    );
 
-    TARGET_FIELDS.forEach((field) => {
-      // try default mapping key
-      const matchingSource = Object.entries(DEFAULT_COLUMN_MAPPING).find(
-        ([_sourceKey, targetKey]) => targetKey === field.key
-      );
-
-      if (matchingSource) {
-        const [sourceKey] = matchingSource;
-        const idx = lowerHeaders.indexOf(sourceKey.toLowerCase());
-        if (idx >= 0) {
-          selections[field.key] = incomingHeaders[idx];
-          return;
-        }
-      }
+    // A lone "Name" column without a first-name column holds the full name
+    if (matches.last_name && !matches.first_name && !matches.full_name) {
+      matches.full_name = matches.last_name;
+      delete matches.last_name;
+    }
+    setColumnMatches(matches);
 
-      // fallback: try exact target name
-      const idxTarget = lowerHeaders.indexOf(field.key.toLowerCase());
-      if (idxTarget >= 0) {
-        selections[field.key] = incomingHeaders[idxTarget];
-      }
+    const selections: Partial<Record<TargetField["key"], string>> = {};
+    Object.entries(matches).forEach(([target, match]) => {
+      if (match) selections[target as TargetField["key"]] = match.header;
     });
-
     return selections;
   }, []);
 
+  const buildComposites = useCallback(
+    (
+      selections: Partial<Record<TargetField["key"], string | undefined>>,
+      composites: Partial<Record<TargetField["key"], CompositeField>>
+    ) => {
+      const active: Record<string, CompositeField> = {};
+      Object.entries(composites).forEach(([target, field]) => {
+        const selected = selections[target as TargetField["key"]];
+        if (!field || !selected) return;
+        // A single column without template behaves like a plain mapping
+        if (field.columns.length < 2 && !field.template?.trim()) return;
+        active[target] = { ...field, columns: [selected, ...field.columns.slice(1)] };
+      });
+      return active;
+    },
+    []
+  );
+
   const recalcMapping = useCallback(
     (
       data: RawRow[],
-      selections: Partial<Record<TargetField["key"], string | undefined>>
-    ) => {
+      selections: Partial<Record<TargetField["key"], string | undefined>>,
+      composites: Partial<Record<TargetField["key"], CompositeField>>,
+      options: MappingOptions,
+      transforms: Partial<Record<TargetField["key"], Transform[]>>,
+      aliases: Record<string, string>
+    ): (() => void) | undefined => {
+      // Without raw data there is nothing to map; rows loaded from a
+      // re-imported export live only in mappedData and must be kept
       if (!data.length) {
-        setMappedData([]);
-        setWarnings({});
         return;
       }
 
       const missingRequired = TARGET_FIELDS.filter(
-        (f) => f.required && !selections[f.key]
+        (f) => isFieldRequired(f, selections) && !selections[f.key]
       );
 
       if (missingRequired.length > 0) {
         setError(
           `Please map required fields: ${missingRequired
-            .map((f) => f.label)
+            .map((f) =>
+              f.requiredUnless
+                ? `${f.label} (or ${f.requiredUnless.map(fieldLabel).join(" or ")})`
+                : f.label
+            )
             .join(", ")}`
         );
         setMappedData([]);
@@ -194,28 +267,144 @@ function App() {
 
       setError("");
       const mapping = buildMapping(selections);
-      const mapped = mapData(data, mapping);
-
-      setMappedData(mapped);
-      setWarnings(buildWarnings(mapped));
+      // Map in the worker; a newer mapping run cancels the previous one
+      const task = runWorkerTask(
+        {
+          type: "mapRows",
+          rows: data,
+          mapping,
+          composites: buildComposites(selections, composites),
+          options,
+          transforms,
+          countryAliases: aliases,
+        },
+        (progress) => setTaskProgress({ label: "Mapping", progress })
+      );
+      cancelTaskRef.current = task.cancel;
+      setTaskProgress({ label: "Mapping", progress: { processed: 0, total: data.length } });
+      task.promise
+        .then(({ mapped, warnings: rowWarnings }) => {
+          setMappedData(mapped);
+          setWarnings(rowWarnings);
+          setTaskProgress(null);
+        })
+        .catch((error) => {
+          // A cancelled run has already been replaced by a newer one or stopped by the user
+          if (error instanceof TaskCancelledError) return;
+          setError(error instanceof Error ? error.message : String(error));
+          setTaskProgress(null);
+        });
+      return task.cancel;
     },
-    [buildMapping, buildWarnings]
+    [buildMapping, buildComposites]
   );
 
   const handleDataLoaded = useCallback(
-    (data: RawRow[], incomingHeaders: string[]) => {
-      setRawData(data);
-      setHeaders(incomingHeaders);
-      const selections = initSelections(incomingHeaders);
+    (data: RawRow[], incomingHeaders: string[], { sourceName, append }: DataLoadOptions) => {
+      const incoming = tagSource({ rows: data, headers: incomingHeaders }, sourceName);
+
+      if (append && rawData.length > 0) {
+        const merged = mergeImports({ rows: rawData, headers }, incoming);
+        // Keep the current mapping and only auto-detect fields that are still unmapped
+        const selections = { ...initSelections(merged.headers), ...columnSelections };
+        setRawData(merged.rows);
+        setHeaders(merged.headers);
+        setColumnSelections(selections);
+        return;
+      }
+
+      setRawData(incoming.rows);
+      setHeaders(incoming.headers);
+      const selections = initSelections(incoming.headers);
       setColumnSelections(selections);
-      recalcMapping(data, selections);
+      setColumnComposites({});
+      // Filter rules carry over to files that still have their columns
+      setRowFilter((prev) =>
+        prev
+          .map((group) => ({
+            ...group,
+            rules: group.rules.filter((rule) => incoming.headers.includes(rule.column)),
+          }))
+          .filter((group) => group.rules.length > 0)
+      );
+    },
+    [rawData, headers, columnSelections, initSelections]
+  );
+
+  const handleExportLoaded = useCallback(
+    (rows: MappedAddress[], importedSender: MappedAddress | null) => {
+      setRawData([]);
+      setHeaders([]);
+      setColumnSelections({});
+      setColumnMatches({});
+      setColumnComposites({});
+      setError("");
+      setMappedData(rows);
+      setWarnings({});
+      if (importedSender) {
+        setSender(importedSender);
+      }
+
+      cancelTaskRef.current?.();
+      const task = runWorkerTask({ type: "validateRows", rows }, (progress) =>
+        setTaskProgress({ label: "Checking", progress })
+      );
+      cancelTaskRef.current = task.cancel;
+      setTaskProgress({ label: "Checking", progress: { processed: 0, total: rows.length } });
+      task.promise
+        .then(({ warnings: rowWarnings }) => {
+          setMappedData((current) => {
+            // Rows edited or deleted in the meantime are validated again
+            setWarnings(
+              buildWarnings(current, (idx) =>
+                current[idx] === rows[idx] ? ownWarnings(rowWarnings, idx) : undefined
+              )
+            );
+            return current;
+          });
+          setTaskProgress(null);
+        })
+        .catch((error) => {
+          if (error instanceof TaskCancelledError) return;
+          setError(error instanceof Error ? error.message : String(error));
+          setTaskProgress(null);
+        });
     },
-    [initSelections, recalcMapping]
+    []
   );
 
+  // Rows matching a filter rule are left out before mapping
+  const filterResult = useMemo(() => applyRowFilter(rawData, rowFilter), [rawData, rowFilter]);
+
   useEffect(() => {
-    recalcMapping(rawData, columnSelections);
-  }, [rawData, columnSelections, recalcMapping]);
+    if (rawData.length > 0 && filterResult.included.length === 0) {
+      setMappedData([]);
+      setWarnings({});
+      return;
+    }
+    return recalcMapping(
+      filterResult.included,
+      columnSelections,
+      columnComposites,
+      mappingOptions,
+      columnTransforms,
+      countryAliases
+    );
+  }, [rawData, filterResult, columnSelections, columnComposites, mappingOptions, columnTransforms, countryAliases, recalcMapping]);
+
+  useEffect(() => saveCountryAliases(countryAliases), [countryAliases]);
+
+  const handleLearnCountryAlias = useCallback((value: string, code: string) => {
+    setCountryAliases((prev) => ({ ...prev, [value]: code }));
+  }, []);
+
+  const handleForgetCountryAlias = useCallback((value: string) => {
+    setCountryAliases((prev) => {
+      const next = { ...prev };
+      delete next[value];
+      return next;
+    });
+  }, []);
 
   useEffect(() => {
     if (sender) {
@@ -235,12 +424,112 @@ function App() {
           sender,
           headers,
           columnSelections,
+          columnMatches,
+          columnComposites,
+          mappingOptions,
+          columnTransforms,
+          rowFilter,
         })
       );
     } catch (error) {
       console.error("Failed to save to localStorage:", error);
     }
-  }, [mappedData, rawData, sender, headers, columnSelections]);
+  }, [mappedData, rawData, sender, headers, columnSelections, columnMatches, columnComposites, mappingOptions, columnTransforms, rowFilter]);
+
+  // Distinct values of the field being edited, for the transform preview
+  const transformSamples = useMemo(() => {
+    const source = editingTransforms ? columnSelections[editingTransforms] : undefined;
+    if (!editingTransforms || !source) return [];
+    const field = buildComposites(columnSelections, columnComposites)[editingTransforms] ?? {
+      columns: [source],
+      separator: "",
+    };
+    const samples = new Set<string>();
+    for (const row of rawData) {
+      const value = composeValue(row, field);
+      if (value) samples.add(value);
+      if (samples.size >= 8) break;
+    }
+    return [...samples];
+  }, [editingTransforms, columnSelections, columnComposites, rawData, buildComposites]);
+
+  // Distinct values of the address-type column after transforms, for the value table
+  const addressTypeSamples = useMemo(() => {
+    const source = columnSelections.address_type;
+    if (!source) return [];
+    const field = buildComposites(columnSelections, columnComposites).address_type ?? {
+      columns: [source],
+      separator: "",
+    };
+    const samples = new Set<string>();
+    for (const row of rawData) {
+      const value = applyTransforms(
+        composeValue(row, field),
+        columnTransforms.address_type ?? []
+      ).trim();
+      if (value) samples.add(value);
+      if (samples.size >= 20) break;
+    }
+    return [...samples];
+  }, [columnSelections, columnComposites, columnTransforms, rawData, buildComposites]);
+
+  const handleApplyProfile = useCallback(
+    (
+      selections: Record<string, string>,
+      composites: Record<string, CompositeField>,
+      options: Partial<MappingOptions>,
+      transforms: Record<string, Transform[]>
+    ) => {
+      setColumnSelections(selections);
+      setColumnComposites(composites);
+      // Profiles don't carry the default country (older ones may), so the current one stays
+      setMappingOptions((prev) => ({
+        ...DEFAULT_MAPPING_OPTIONS,
+        ...options,
+        defaultCountry: prev.defaultCountry,
+      }));
+      setColumnTransforms(transforms);
+      // Profile selections are deliberate, so no confidence badges
+      setColumnMatches({});
+    },
+    []
+  );
+
+  const handleSelectColumn = useCallback(
+    (target: TargetField["key"], source: string | undefined) => {
+      setColumnSelections((prev) => ({ ...prev, [target]: source }));
+      setColumnComposites((prev) => {
+        const field = prev[target];
+        if (!field) return prev;
+        if (!source) {
+          const next = { ...prev };
+          delete next[target];
+          return next;
+        }
+        return { ...prev, [target]: { ...field, columns: [source, ...field.columns.slice(1)] } };
+      });
+    },
+    []
+  );
+
+  const handleCompositeChange = useCallback(
+    (target: TargetField["key"], field: CompositeField | undefined) => {
+      setColumnComposites((prev) => {
+        const next = { ...prev };
+        if (field) {
+          next[target] = field;
+        } else {
+          delete next[target];
+        }
+        return next;
+      });
+      // Reordering can move another column into first place
+      if (field?.columns[0]) {
+        setColumnSelections((prev) => ({ ...prev, [target]: field.columns[0] }));
+      }
+    },
+    []
+  );
 
   const handleError = useCallback((errorMessage: string) => {
     setError(errorMessage);
@@ -256,35 +545,77 @@ function App() {
         const nextData = [...prev];
         nextData[rowIndex] = updatedRow;
 
-        setWarnings(buildWarnings(nextData));
+        // Only the edited row is validated again; the others keep their warnings
+        setWarnings((prevWarnings) =>
+          buildWarnings(nextData, (idx) =>
+            idx === rowIndex ? undefined : ownWarnings(prevWarnings, idx)
+          )
+        );
         return nextData;
       });
     },
-    [buildWarnings]
+    []
   );
 
+  const handleApplyCitySuggestions = useCallback(() => {
+    setMappedData((prev) => {
+      const nextData = prev.map((row) => {
+        const city = suggestedCity(row);
+        return city ? { ...row, STADT: city } : row;
+      });
+      setWarnings((prevWarnings) =>
+        buildWarnings(nextData, (idx) =>
+          nextData[idx] === prev[idx] ? ownWarnings(prevWarnings, idx) : undefined
+        )
+      );
+      return nextData;
+    });
+  }, []);
+
   const handleDeleteRow = useCallback(
     (rowIndex: number) => {
       setMappedData((prev) => {
         if (!prev[rowIndex]) return prev;
         const filtered = prev.filter((_, idx) => idx !== rowIndex);
+        // References mapped from a source column are stable; only row numbers shift
         const reindexed = filtered.map((row, idx) => ({
           ...row,
-          REFERENZ: idx + 1,
+          REFERENZ: typeof row.REFERENZ === "string" ? row.REFERENZ : idx + 1,
         }));
-        setWarnings(buildWarnings(reindexed));
+        // Rows after the deleted one move up together with their warnings
+        setWarnings((prevWarnings) =>
+          buildWarnings(reindexed, (idx) =>
+            ownWarnings(prevWarnings, idx < rowIndex ? idx : idx + 1)
+          )
+        );
         return reindexed;
       });
     },
-    [buildWarnings]
+    []
   );
 
+  const handleCancelTask = useCallback(() => {
+    cancelTaskRef.current?.();
+    cancelTaskRef.current = null;
+    setTaskProgress(null);
+  }, []);
+
   const handleClearAll = useCallback(() => {
+    handleCancelTask();
     setMappedData([]);
     setRawData([]);
-    setSender(DEFAULT_SENDER);
+    // The default country is a setting rather than data, so it survives clearing
+    setSender({ ...DEFAULT_SENDER, LAND: mappingOptions.defaultCountry });
     setHeaders([]);
     setColumnSelections({});
+    setColumnMatches({});
+    setColumnComposites({});
+    setMappingOptions({
+      ...DEFAULT_MAPPING_OPTIONS,
+      defaultCountry: mappingOptions.defaultCountry,
+    });
+    setColumnTransforms({});
+    setRowFilter([]);
     setWarnings({});
     setSenderWarnings([]);
     setError("");
@@ -293,7 +624,7 @@ function App() {
     } catch (error) {
       console.error("Failed to clear localStorage:", error);
     }
-  }, []);
+  }, [mappingOptions.defaultCountry, handleCancelTask]);
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-slate-50 to-white">
@@ -353,7 +684,12 @@ function App() {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <FileUpload onDataLoaded={handleDataLoaded} onError={handleError} />
+              <FileUpload
+                onDataLoaded={handleDataLoaded}
+                onError={handleError}
+                onExportLoaded={handleExportLoaded}
+                canAppend={rawData.length > 0}
+              />
             </CardContent>
           </Card>
 
@@ -532,48 +868,172 @@ function App() {
                   Map the columns from your file to the required fields.
                 </CardDescription>
               </CardHeader>
-              <CardContent>
+              <CardContent className="space-y-4">
+                <MappingProfiles
+                  headers={headers}
+                  selections={columnSelections}
+                  composites={columnComposites}
+                  options={mappingOptions}
+                  transforms={columnTransforms}
+                  onApply={handleApplyProfile}
+                />
                 <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
                   {TARGET_FIELDS.map((field) => (
                     <div key={field.key} className="space-y-2">
                       <Label htmlFor={`mapping-${field.key}`} className="flex items-center gap-2">
                         {field.label}
-                        {field.required && (
+                        {isFieldRequired(field, columnSelections) && (
                           <span className="text-destructive text-xs font-semibold">*</span>
                         )}
+                        {/* Only auto-detected selections get a badge; manual choices are trusted */}
+                        {columnMatches[field.key] &&
+                          columnMatches[field.key]?.header === columnSelections[field.key] && (
+                            <span
+                              className={CONFIDENCE_BADGE_CLASSES[columnMatches[field.key]!.confidence]}
+                              title="Automatically detected column, please check"
+                            >
+                              {columnMatches[field.key]!.confidence}
+                            </span>
+                          )}
                       </Label>
                       <Select
                         value={columnSelections[field.key] ?? ""}
                         onValueChange={(value) =>
-                          setColumnSelections((prev) => ({
-                            ...prev,
-                            [field.key]: value === "none" ? undefined : value,
-                          }))
+                          handleSelectColumn(field.key, value === "none" ? undefined : value)
                         }
                       >
                         <SelectTrigger id={`mapping-${field.key}`}>
                           <SelectValue placeholder="Select column" />
                         </SelectTrigger>
                         <SelectContent>
-                          {!field.required && (
+                          {!isFieldRequired(field, columnSelections) && (
                             <SelectItem value="none">
                               <span className="text-muted-foreground">Not Mapped</span>
                             </SelectItem>
                           )}
                           {headers.map((header) => (
                             <SelectItem key={header} value={header}>
-                              {header}
+                              {columnLabel(header, headers)}
                             </SelectItem>
                           ))}
                         </SelectContent>
                       </Select>
+                      {columnComposites[field.key] ? (
+                        <CompositeFieldEditor
+                          id={`composite-${field.key}`}
+                          headers={headers}
+                          field={columnComposites[field.key]!}
+                          sampleRow={rawData[0]}
+                          onChange={(composite) => handleCompositeChange(field.key, composite)}
+                        />
+                      ) : null}
+                      {columnSelections[field.key] && (
+                        <div className="flex flex-wrap gap-x-3">
+                          {!columnComposites[field.key] && (
+                            <Button
+                              variant="link"
+                              size="sm"
+                              className="h-auto p-0 text-xs"
+                              onClick={() =>
+                                handleCompositeChange(field.key, {
+                                  columns: [columnSelections[field.key]!],
+                                  separator: DEFAULT_COMPOSITE_SEPARATOR,
+                                })
+                              }
+                            >
+                              Combine with other columns
+                            </Button>
+                          )}
+                          <Button
+                            variant="link"
+                            size="sm"
+                            className="h-auto p-0 text-xs"
+                            onClick={() => setEditingTransforms(field.key)}
+                          >
+                            Transforms
+                            {columnTransforms[field.key]?.length
+                              ? ` (${columnTransforms[field.key]!.length})`
+                              : ""}
+                          </Button>
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
+                <TransformEditor
+                  fieldLabel={editingTransforms ? fieldLabel(editingTransforms) : null}
+                  transforms={editingTransforms ? columnTransforms[editingTransforms] ?? [] : []}
+                  sampleValues={transformSamples}
+                  onChange={(transforms) =>
+                    editingTransforms &&
+                    setColumnTransforms((prev) => ({ ...prev, [editingTransforms]: transforms }))
+                  }
+                  onClose={() => setEditingTransforms(null)}
+                />
+                {columnSelections.address_type && (
+                  <AddressTypeValues
+                    values={mappingOptions.addressTypeValues}
+                    sourceValues={addressTypeSamples}
+                    onChange={(addressTypeValues) =>
+                      setMappingOptions((prev) => ({ ...prev, addressTypeValues }))
+                    }
+                  />
+                )}
+                <div className="space-y-2 border-t pt-4">
+                  <Label>Default country</Label>
+                  <CountryCombobox
+                    value={mappingOptions.defaultCountry}
+                    onValueChange={(defaultCountry) =>
+                      setMappingOptions((prev) => ({ ...prev, defaultCountry }))
+                    }
+                    className="sm:w-[280px]"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Used for unknown countries and for empty ones that cannot be inferred from the
+                    postal code (e.g. "1234 AB" is the Netherlands, "1010 Wien" Austria).
+                  </p>
+                </div>
+                <RecipientOptions
+                  options={mappingOptions}
+                  hasOrganisation={Boolean(columnSelections.organisation)}
+                  onChange={setMappingOptions}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {rawData.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Filter Rows</CardTitle>
+                <CardDescription>
+                  Exclude rows from the labels, e.g. inactive customers or rows without a postal code.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <RowFilters
+                  headers={headers}
+                  groups={rowFilter}
+                  result={filterResult}
+                  totalRows={rawData.length}
+                  onChange={setRowFilter}
+                />
               </CardContent>
             </Card>
           )}
 
+          {/* Shown outside the table so the first mapping of a file reports progress too */}
+          {taskProgress && (
+            <div className="flex items-center justify-between gap-4 rounded-lg border bg-muted/40 px-4 py-3">
+              <p className="text-sm text-muted-foreground tabular-nums">
+                {taskProgress.label} {formatProgress(taskProgress.progress)}…
+              </p>
+              <Button variant="outline" size="sm" onClick={handleCancelTask}>
+                Cancel
+              </Button>
+            </div>
+          )}
+
           {hasData && (
             <Card>
               <CardHeader>
@@ -582,7 +1042,13 @@ function App() {
                   Review, edit, and export your mapped addresses.
                 </CardDescription>
               </CardHeader>
-              <CardContent>
+              <CardContent className="space-y-4">
+                <CountryAliases
+                  data={mappedData}
+                  aliases={countryAliases}
+                  onLearn={handleLearnCountryAlias}
+                  onRemove={handleForgetCountryAlias}
+                />
                 <MappedTable
                   data={mappedData}
                   warnings={warnings}
@@ -590,6 +1056,7 @@ function App() {
                   editable
                   onEditRow={handleEditRow}
                   onDeleteRow={handleDeleteRow}
+                  onApplyCitySuggestions={handleApplyCitySuggestions}
                 />
               </CardContent>
             </Card>
@@ -0,0 +1,101 @@
+import { ADDRESS_TYPE_OPTIONS, resolveAddressType } from "@/lib/mapper";
+import type { AddressType, AddressTypeValue } from "@/lib/mapper";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+
+interface AddressTypeValuesProps {
+  values: AddressTypeValue[];
+  // Distinct values of the mapped column, to point out the ones without a translation
+  sourceValues: string[];
+  onChange: (values: AddressTypeValue[]) => void;
+}
+
+export function AddressTypeValues({ values, sourceValues, onChange }: AddressTypeValuesProps) {
+  const unknownValues = sourceValues.filter((value) => !resolveAddressType(value, values));
+
+  const updateAt = (idx: number, entry: AddressTypeValue) =>
+    onChange(values.map((other, i) => (i === idx ? entry : other)));
+
+  return (
+    <div className="space-y-2 border-t pt-4">
+      <Label>Address type values</Label>
+      <p className="text-xs text-muted-foreground">
+        HOUSE, POBOX and MAJORRECIPIENT are recognised as they are. Rows with an empty or unknown
+        value get their type from the address addition.
+      </p>
+      <div className="space-y-1">
+        {values.map((entry, idx) => (
+          <div key={idx} className="flex items-center gap-1">
+            <Input
+              className="h-8 w-[180px]"
+              value={entry.from}
+              placeholder="Value, e.g. PF"
+              aria-label={`Address type value ${idx + 1}`}
+              onChange={(e) => updateAt(idx, { ...entry, from: e.target.value })}
+            />
+            <span className="text-muted-foreground">→</span>
+            <Select
+              value={entry.to}
+              onValueChange={(to) => updateAt(idx, { ...entry, to: to as AddressType })}
+            >
+              <SelectTrigger className="h-8 w-[220px]" aria-label={`Address type ${idx + 1}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ADDRESS_TYPE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.value} ({option.label})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              aria-label="Remove value"
+              onClick={() => onChange(values.filter((_, i) => i !== idx))}
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          onClick={() => onChange([...values, { from: "", to: "POBOX" }])}
+        >
+          <Plus className="h-3.5 w-3.5" />
+          Add value
+        </Button>
+      </div>
+      {unknownValues.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-amber-700">
+          <span>Unknown values in the file:</span>
+          {unknownValues.map((value) => (
+            <Button
+              key={value}
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              title="Add to the table"
+              onClick={() => onChange([...values, { from: value, to: "HOUSE" }])}
+            >
+              <Plus className="h-3 w-3" />
+              {value}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useCallback } from "react";
+import { columnLabel, composeValue } from "@/lib/mapper";
+import type { CompositeField, RawRow } from "@/lib/mapper";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowUp, Plus, X } from "lucide-react";
+
+interface CompositeFieldEditorProps {
+  id: string;
+  headers: string[];
+  field: CompositeField;
+  sampleRow?: RawRow;
+  onChange: (field: CompositeField | undefined) => void;
+}
+
+export function CompositeFieldEditor({
+  id,
+  headers,
+  field,
+  sampleRow,
+  onChange,
+}: CompositeFieldEditorProps) {
+  // The first column is chosen with the regular mapping select above
+  const extraColumns = field.columns.slice(1);
+
+  const setExtraColumns = useCallback(
+    (columns: string[]) => onChange({ ...field, columns: [field.columns[0], ...columns] }),
+    [field, onChange]
+  );
+
+  const addColumn = useCallback(() => {
+    const unused = headers.find((header) => !field.columns.includes(header)) ?? headers[0];
+    if (unused) setExtraColumns([...extraColumns, unused]);
+  }, [headers, field.columns, extraColumns, setExtraColumns]);
+
+  const moveUp = useCallback(
+    (idx: number) => {
+      // Moving the first extra column up swaps it with the selected column
+      const all = [...field.columns];
+      [all[idx], all[idx + 1]] = [all[idx + 1], all[idx]];
+      onChange({ ...field, columns: all });
+    },
+    [field, onChange]
+  );
+
+  const preview = sampleRow ? composeValue(sampleRow, field) : "";
+
+  return (
+    <div className="space-y-2 rounded-md border border-dashed p-2">
+      {extraColumns.map((column, idx) => (
+        <div key={idx} className="flex items-center gap-1">
+          <Select
+            value={column}
+            onValueChange={(value) =>
+              setExtraColumns(extraColumns.map((other, i) => (i === idx ? value : other)))
+            }
+          >
+            <SelectTrigger className="h-8 flex-1" aria-label={`Additional column ${idx + 1}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {headers.map((header) => (
+                <SelectItem key={header} value={header}>
+                  {columnLabel(header, headers)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => moveUp(idx)}
+            aria-label="Move column up"
+          >
+            <ArrowUp className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => setExtraColumns(extraColumns.filter((_, i) => i !== idx))}
+            aria-label="Remove column"
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={addColumn}>
+        <Plus className="h-3.5 w-3.5" />
+        Add column
+      </Button>
+      <div className="grid grid-cols-[5rem_1fr] items-center gap-2">
+        <Label htmlFor={`${id}-separator`} className="text-xs">
+          Separator
+        </Label>
+        <Input
+          id={`${id}-separator`}
+          className="h-8"
+          value={field.separator}
+          placeholder="(none)"
+          onChange={(e) => onChange({ ...field, separator: e.target.value })}
+          disabled={Boolean(field.template?.trim())}
+        />
+        <Label htmlFor={`${id}-template`} className="text-xs">
+          Template
+        </Label>
+        <Input
+          id={`${id}-template`}
+          className="h-8"
+          value={field.template ?? ""}
+          placeholder="{Firma} – {Abteilung}"
+          onChange={(e) => onChange({ ...field, template: e.target.value })}
+        />
+      </div>
+      {preview && (
+        <p className="truncate text-xs text-muted-foreground" title={preview}>
+          Example: {preview}
+        </p>
+      )}
+      <Button
+        variant="link"
+        size="sm"
+        className="h-auto p-0 text-xs"
+        onClick={() => onChange(undefined)}
+      >
+        Use single column
+      </Button>
+    </div>
+  );
+}
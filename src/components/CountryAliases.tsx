@@ -0,0 +1,108 @@
+import { useMemo } from "react";
+import { countryLabel } from "@/lib/countryMatching";
+import type { MappedAddress } from "@/lib/mapper";
+import { CountryCombobox } from "@/components/CountryCombobox";
+import { Button } from "@/components/ui/button";
+import { X } from "lucide-react";
+
+interface CountryAliasesProps {
+  data: MappedAddress[];
+  aliases: Record<string, string>;
+  onLearn: (value: string, code: string) => void;
+  onRemove: (value: string) => void;
+}
+
+interface UncertainCountry {
+  value: string;
+  code: string;
+  fuzzy: boolean;
+  suggestions: string[];
+  count: number;
+}
+
+export function CountryAliases({ data, aliases, onLearn, onRemove }: CountryAliasesProps) {
+  // One entry per unrecognised or fuzzily matched source value
+  const uncertain = useMemo(() => {
+    const byValue = new Map<string, UncertainCountry>();
+    data.forEach((row) => {
+      const value = row.LAND_UNMAPPED_ORIGINAL || row.LAND_FUZZY_ORIGINAL;
+      if (!value) return;
+      const entry = byValue.get(value);
+      if (entry) {
+        entry.count++;
+      } else {
+        byValue.set(value, {
+          value,
+          code: row.LAND,
+          fuzzy: Boolean(row.LAND_FUZZY_ORIGINAL),
+          suggestions: row.LAND_SUGGESTIONS ?? [],
+          count: 1,
+        });
+      }
+    });
+    return [...byValue.values()].sort((a, b) => b.count - a.count);
+  }, [data]);
+
+  const learned = Object.entries(aliases);
+  if (uncertain.length === 0 && learned.length === 0) return null;
+
+  return (
+    <div className="space-y-3 rounded-md border p-3 text-sm">
+      {uncertain.length > 0 && (
+        <div className="space-y-2">
+          <p className="font-medium">Country values to check</p>
+          {uncertain.map((entry) => (
+            <div key={entry.value} className="flex flex-wrap items-center gap-2">
+              <span>
+                &quot;{entry.value}&quot;{" "}
+                <span className="text-muted-foreground">
+                  ({entry.count} row{entry.count !== 1 ? "s" : ""},{" "}
+                  {entry.fuzzy ? `read as ${countryLabel(entry.code)}` : `defaulted to ${entry.code}`})
+                </span>
+              </span>
+              {(entry.fuzzy ? [entry.code, ...entry.suggestions] : entry.suggestions).map((code) => (
+                <Button
+                  key={code}
+                  variant="outline"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => onLearn(entry.value, code)}
+                >
+                  Always map to {countryLabel(code)}
+                </Button>
+              ))}
+              <CountryCombobox
+                value=""
+                placeholder="Other country…"
+                className="h-7 w-[200px] text-xs"
+                onValueChange={(code) => code && onLearn(entry.value, code)}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {learned.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-muted-foreground">Learned country names:</span>
+          {learned.map(([value, code]) => (
+            <span
+              key={value}
+              className="inline-flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 text-xs"
+            >
+              {value} → {code}
+              <button
+                type="button"
+                aria-label={`Forget ${value}`}
+                className="text-muted-foreground hover:text-foreground"
+                onClick={() => onRemove(value)}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
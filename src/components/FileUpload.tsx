@@ -1,145 +1,237 @@
 import { useState, useRef, useCallback } from "react";
-import Papa from "papaparse";
-import * as XLSX from "xlsx";
-import { Upload, FileSpreadsheet } from "lucide-react";
-import type { RawRow } from "@/lib/mapper";
+import { Upload, FileSpreadsheet, ClipboardPaste, TextQuote } from "lucide-react";
+import { columnLabel, SHEET_COLUMN } from "@/lib/mapper";
+import type { MappedAddress, RawRow } from "@/lib/mapper";
 import {
   Dialog,
   DialogContent,
   DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { ImportPreviewDialog } from "@/components/ImportPreviewDialog";
+import type { PendingImport } from "@/components/ImportPreviewDialog";
+import {
+  combineSheets,
+  isExportedCsv,
+  parseExportedCsv,
+  parsePastedText,
+  recordsToMatrix,
+  toMatrix,
+} from "@/lib/importer";
+import type { RawMatrix } from "@/lib/importer";
+import { formatProgress, runWorkerTask, TaskCancelledError } from "@/lib/workerClient";
+import type { TaskProgress, WorkerTask } from "@/lib/workerClient";
+import { decodeBytes, detectEncoding } from "@/lib/encoding";
+import { parseVCards } from "@/lib/vcard";
+import { parseAddressText } from "@/lib/freetext";
+import { extractJsonRecords, findRecordPaths, parseJsonText, JSON_ROOT_PATH } from "@/lib/json";
 import { cn } from "@/lib/utils";
 
+export interface DataLoadOptions {
+  sourceName: string;
+  append: boolean;
+}
+
 interface FileUploadProps {
-  onDataLoaded: (data: RawRow[], headers: string[]) => void;
+  onDataLoaded: (data: RawRow[], headers: string[], options: DataLoadOptions) => void;
   onError: (error: string) => void;
+  onExportLoaded?: (rows: MappedAddress[], sender: MappedAddress | null) => void;
+  canAppend?: boolean;
 }
 
 interface SheetSelectorState {
-  sheets: string[];
-  workbook: XLSX.WorkBook;
+  sheets: { name: string; matrix: RawMatrix }[];
+  fileName: string;
+  selected: string[];
 }
 
 const SUPPORTED_FILE_TYPES = {
   csv: [".csv"],
   excel: [".xlsx", ".xls"],
   ods: [".ods"],
+  vcard: [".vcf"],
+  json: [".json", ".ndjson"],
 } as const;
 
 const ACCEPTED_EXTENSIONS = Object.values(SUPPORTED_FILE_TYPES)
   .flat()
   .join(",");
 
-export function FileUpload({ onDataLoaded, onError }: FileUploadProps) {
+export function FileUpload({
+  onDataLoaded,
+  onError,
+  onExportLoaded,
+  canAppend = false,
+}: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [sheetSelector, setSheetSelector] = useState<SheetSelectorState | null>(
     null
   );
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [mode, setMode] = useState<"file" | "paste" | "blocks">("file");
+  const [pastedText, setPastedText] = useState("");
+  const [progress, setProgress] = useState<TaskProgress | null>(null);
+  // Set while a worker task runs; workbooks report no progress until they are read
+  const [cancelTask, setCancelTask] = useState<(() => void) | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const parseCSV = useCallback(
-    (file: File) => {
-      Papa.parse(file, {
-        header: true,
-        skipEmptyLines: true,
-        complete: (results) => {
-          setIsLoading(false);
-          if (results.data && results.data.length > 0) {
-            const headers = results.meta.fields ?? Object.keys(results.data[0] ?? {});
-            onDataLoaded(results.data as RawRow[], headers);
-          } else {
-            onError("No data found in CSV file");
-          }
-        },
-        error: (error) => {
-          setIsLoading(false);
-          onError(`CSV parsing error: ${error.message}`);
-        },
+  const runTask = useCallback(
+    <K extends WorkerTask["type"]>(task: Extract<WorkerTask, { type: K }>) => {
+      const running = runWorkerTask(task, setProgress);
+      setCancelTask(() => running.cancel);
+      return running.promise.finally(() => {
+        setCancelTask(null);
+        setProgress(null);
       });
     },
-    [onDataLoaded, onError]
+    []
+  );
+
+  const openPreview = useCallback(
+    (sourceName: string, rows: unknown[][], extra?: Pick<PendingImport, "csv" | "json">) => {
+      const matrix = toMatrix(rows);
+      if (matrix.length === 0) {
+        onError(`No data found in ${sourceName}`);
+        return;
+      }
+      setPendingImport({ sourceName, matrix, ...extra });
+    },
+    [onError]
+  );
+
+  const handlePreviewConfirm = useCallback(
+    (data: RawRow[], headers: string[], append: boolean) => {
+      const sourceName = pendingImport?.sourceName ?? "";
+      setPendingImport(null);
+      if (data.length > 0) {
+        onDataLoaded(data, headers, { sourceName, append });
+      } else {
+        onError("No data found below the selected header row");
+      }
+    },
+    [pendingImport, onDataLoaded, onError]
+  );
+
+  const parseCSV = useCallback(
+    async (file: File) => {
+      try {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        const { matrix, options: detected } = await runTask({ type: "parseCsv", bytes });
+
+        // Our own export: already mapped, so skip the preview and column mapping
+        if (onExportLoaded && isExportedCsv(matrix)) {
+          const encoding = detected.encoding.startsWith("utf") ? detected.encoding : "windows-1252";
+          const { matrix: exportMatrix } = await runTask({
+            type: "parseCsv",
+            bytes,
+            options: { ...detected, encoding, delimiter: ";" },
+          });
+          const exported = parseExportedCsv(exportMatrix);
+          onExportLoaded(exported.rows, exported.sender);
+          return;
+        }
+
+        openPreview(file.name, matrix, { csv: { bytes, detected } });
+      } catch (error) {
+        if (error instanceof TaskCancelledError) return;
+        onError(
+          `CSV parsing error: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [runTask, openPreview, onExportLoaded, onError]
+  );
+
+  const parseVCard = useCallback(
+    async (file: File) => {
+      try {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        // Outlook writes vCard 2.1 files in the Windows code page
+        const result = parseVCards(decodeBytes(bytes, detectEncoding(bytes)));
+        if (result.rows.length === 0) {
+          onError("No contacts found in vCard file");
+          return;
+        }
+        openPreview(file.name, recordsToMatrix(result));
+      } catch (error) {
+        onError(
+          `vCard parsing error: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [openPreview, onError]
+  );
+
+  const parseJSON = useCallback(
+    async (file: File) => {
+      try {
+        const data = parseJsonText(await file.text());
+        const paths = findRecordPaths(data);
+        const detected = paths[0]?.path ?? JSON_ROOT_PATH;
+        const result = extractJsonRecords(data, detected);
+        if (result.rows.length === 0) {
+          onError("No records found in JSON file");
+          return;
+        }
+        openPreview(file.name, recordsToMatrix(result), {
+          json: { data, paths, detected },
+        });
+      } catch (error) {
+        onError(
+          `JSON parsing error: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [openPreview, onError]
   );
 
   const parseExcel = useCallback(
     async (file: File) => {
       try {
-        const reader = new FileReader();
-
-        reader.onload = async (e) => {
-          try {
-            const arrayBuffer = new Uint8Array(e.target?.result as ArrayBuffer);
-            const workbook = XLSX.read(arrayBuffer, {
-              type: "array",
-              cellFormula: false,
-              cellStyles: false,
-            });
-
-            const sheetNames = workbook.SheetNames;
-
-            if (sheetNames.length === 0) {
-              onError("No sheets found in file");
-              setIsLoading(false);
-              return;
-            }
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        const { sheets } = await runTask({ type: "parseWorkbook", bytes });
 
-            if (sheetNames.length === 1) {
-              const sheet = sheetNames[0];
-              const worksheet = workbook.Sheets[sheet];
-
-              const headerRows = XLSX.utils.sheet_to_json<string[]>(worksheet, {
-                header: 1,
-                range: 0,
-                blankrows: false,
-                defval: "",
-              }) as string[][];
-              const firstRow = headerRows[0] ?? [];
-              const headers = firstRow
-                .map((h) => (h == null ? "" : String(h).trim()))
-                .filter((h) => h !== "");
-
-              const rows = XLSX.utils.sheet_to_json<RawRow>(worksheet, {
-                defval: "",
-              });
-
-              const finalHeaders = headers.length > 0
-                ? headers
-                : Object.keys(rows[0] ?? {});
-
-              if (rows.length > 0) {
-                onDataLoaded(rows, finalHeaders);
-              } else {
-                onError("No data found in file");
-              }
-              setIsLoading(false);
-            } else {
-              setSheetSelector({ sheets: sheetNames, workbook });
-              setIsLoading(false);
-            }
-          } catch (error) {
-            onError(
-              `File parsing error: ${
-                error instanceof Error ? error.message : String(error)
-              }`
-            );
-            setIsLoading(false);
-          }
-        };
-        
-        reader.readAsArrayBuffer(file);
+        if (sheets.length === 0) {
+          onError("No sheets found in file");
+        } else if (sheets.length === 1) {
+          openPreview(file.name, sheets[0].matrix);
+        } else {
+          setSheetSelector({
+            sheets,
+            fileName: file.name,
+            selected: [sheets[0].name],
+          });
+        }
       } catch (error) {
+        if (error instanceof TaskCancelledError) return;
         onError(
-          `Error reading file: ${
+          `File parsing error: ${
             error instanceof Error ? error.message : String(error)
           }`
         );
+      } finally {
         setIsLoading(false);
       }
     },
-    [onDataLoaded, onError]
+    [runTask, openPreview, onError]
   );
 
   const parseFile = useCallback(
@@ -149,17 +241,21 @@ export function FileUpload({ onDataLoaded, onError }: FileUploadProps) {
 
       try {
         if (fileName.endsWith(".csv")) {
-          parseCSV(file);
+          await parseCSV(file);
         } else if (
           fileName.endsWith(".xlsx") ||
           fileName.endsWith(".xls") ||
           fileName.endsWith(".ods")
         ) {
           await parseExcel(file);
+        } else if (fileName.endsWith(".vcf")) {
+          await parseVCard(file);
+        } else if (fileName.endsWith(".json") || fileName.endsWith(".ndjson")) {
+          await parseJSON(file);
         } else {
           setIsLoading(false);
           onError(
-            "Unsupported file format. Please use CSV, Excel (.xlsx, .xls), or ODS files."
+            "Unsupported file format. Please use CSV, Excel (.xlsx, .xls), ODS, vCard (.vcf), or JSON files."
           );
         }
       } catch (error) {
@@ -169,39 +265,33 @@ export function FileUpload({ onDataLoaded, onError }: FileUploadProps) {
         );
       }
     },
-    [parseCSV, parseExcel, onError]
+    [parseCSV, parseExcel, parseVCard, parseJSON, onError]
   );
 
+  const toggleSheet = useCallback((sheetName: string, checked: boolean) => {
+    setSheetSelector((prev) => {
+      if (!prev) return prev;
+      const selected = checked
+        ? [...prev.selected, sheetName]
+        : prev.selected.filter((name) => name !== sheetName);
+      // Keep workbook order regardless of click order
+      return {
+        ...prev,
+        selected: prev.sheets
+          .map((sheet) => sheet.name)
+          .filter((name) => selected.includes(name)),
+      };
+    });
+  }, []);
+
   const handleSheetSelection = useCallback(
-    async (workbook: XLSX.WorkBook, sheetName: string) => {
+    (selector: SheetSelectorState) => {
       try {
-        const worksheet = workbook.Sheets[sheetName];
-
-        const headerRows = XLSX.utils.sheet_to_json<string[]>(worksheet, {
-          header: 1,
-          range: 0,
-          blankrows: false,
-          defval: "",
-        }) as string[][];
-        const firstRow = headerRows[0] ?? [];
-        const headers = firstRow
-          .map((h) => (h == null ? "" : String(h).trim()))
-          .filter((h) => h !== "");
-
-        const rows = XLSX.utils.sheet_to_json<RawRow>(worksheet, {
-          defval: "",
-        });
-
-        const finalHeaders = headers.length > 0
-          ? headers
-          : Object.keys(rows[0] ?? {});
-
-        if (rows.length > 0) {
-          onDataLoaded(rows, finalHeaders);
-          setSheetSelector(null);
-        } else {
-          onError("No data found in selected sheet");
-        }
+        const sheets = selector.sheets.filter((sheet) => selector.selected.includes(sheet.name));
+        setSheetSelector(null);
+        const sourceName =
+          sheets.length === 1 ? `${selector.fileName} – ${sheets[0].name}` : selector.fileName;
+        openPreview(sourceName, combineSheets(sheets));
       } catch (error) {
         onError(
           `File parsing error: ${
@@ -210,9 +300,18 @@ export function FileUpload({ onDataLoaded, onError }: FileUploadProps) {
         );
       }
     },
-    [onDataLoaded, onError]
+    [openPreview, onError]
   );
 
+  const handlePasteSubmit = useCallback(() => {
+    if (!pastedText.trim()) return;
+    if (mode === "blocks") {
+      openPreview("Pasted addresses", recordsToMatrix(parseAddressText(pastedText)));
+    } else {
+      openPreview("Pasted data", parsePastedText(pastedText));
+    }
+  }, [mode, pastedText, openPreview]);
+
   const handleDrop = useCallback(
     (e: React.DragEvent<HTMLDivElement>) => {
       e.preventDefault();
@@ -257,66 +356,180 @@ export function FileUpload({ onDataLoaded, onError }: FileUploadProps) {
       >
         <DialogContent className="sm:max-w-md max-h-[80vh] flex flex-col">
           <DialogHeader>
-            <DialogTitle>Select Sheet</DialogTitle>
+            <DialogTitle>Select Sheets</DialogTitle>
             <DialogDescription>
-              The file contains multiple sheets. Please select which one to use.
+              The file contains multiple sheets. Select one or more sheets with the same
+              columns; combined sheets get an extra &quot;{columnLabel(SHEET_COLUMN)}&quot; column.
             </DialogDescription>
           </DialogHeader>
           <div className="grid gap-2 py-4 pr-1 overflow-y-auto overflow-x-visible max-h-[60vh]">
-            {sheetSelector?.sheets.map((sheet) => (
-              <Button
+            {sheetSelector?.sheets.map(({ name: sheet }) => (
+              <label
                 key={sheet}
-                onClick={() => handleSheetSelection(sheetSelector.workbook, sheet)}
-                variant="outline"
-                className="justify-start"
+                className="flex items-center gap-3 rounded-md border px-3 py-2 text-sm cursor-pointer hover:bg-accent"
               >
-                <FileSpreadsheet className="mr-2 h-4 w-4" />
+                <Checkbox
+                  checked={sheetSelector.selected.includes(sheet)}
+                  onCheckedChange={(checked) => toggleSheet(sheet, checked === true)}
+                />
+                <FileSpreadsheet className="h-4 w-4 text-muted-foreground" />
                 {sheet}
-              </Button>
+              </label>
             ))}
           </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() =>
+                setSheetSelector((prev) =>
+                  prev
+                    ? {
+                        ...prev,
+                        selected:
+                          prev.selected.length === prev.sheets.length
+                            ? []
+                            : prev.sheets.map((sheet) => sheet.name),
+                      }
+                    : prev
+                )
+              }
+            >
+              {sheetSelector && sheetSelector.selected.length === sheetSelector.sheets.length
+                ? "Select none"
+                : "Select all"}
+            </Button>
+            <Button
+              onClick={() => sheetSelector && handleSheetSelection(sheetSelector)}
+              disabled={!sheetSelector?.selected.length}
+            >
+              Continue ({sheetSelector?.selected.length ?? 0} sheet
+              {sheetSelector?.selected.length !== 1 ? "s" : ""})
+            </Button>
+          </DialogFooter>
         </DialogContent>
       </Dialog>
 
-      <div
-        onDrop={handleDrop}
-        onDragOver={handleDragOver}
-        onDragLeave={handleDragLeave}
-        onClick={handleClick}
-        className={cn(
-          "relative flex flex-col items-center gap-4 rounded-lg border-2 border-dashed p-12 text-center transition-colors cursor-pointer",
-          isDragging && "border-primary bg-primary/5",
-          !isDragging && "border-muted-foreground/25 hover:border-primary/50",
-          isLoading && "opacity-50 cursor-not-allowed pointer-events-none"
-        )}
-      >
-        <input
-          ref={fileInputRef}
-          type="file"
-          accept={ACCEPTED_EXTENSIONS}
-          onChange={handleFileSelect}
-          disabled={isLoading}
-          className="hidden"
-          aria-label="Upload file"
-        />
-
-        <div className="mx-auto flex h-12 w-12 items-center justify-center rounded-full bg-muted">
-          <Upload className="h-6 w-6 text-muted-foreground" />
+      <ImportPreviewDialog
+        pending={pendingImport}
+        canAppend={canAppend}
+        onConfirm={handlePreviewConfirm}
+        onCancel={() => setPendingImport(null)}
+      />
+
+      <div className="mb-4 flex justify-center gap-2">
+        <Button
+          variant={mode === "file" ? "default" : "outline"}
+          size="sm"
+          onClick={() => setMode("file")}
+        >
+          <Upload className="mr-2 h-4 w-4" />
+          Upload file
+        </Button>
+        <Button
+          variant={mode === "paste" ? "default" : "outline"}
+          size="sm"
+          onClick={() => setMode("paste")}
+        >
+          <ClipboardPaste className="mr-2 h-4 w-4" />
+          Paste data
+        </Button>
+        <Button
+          variant={mode === "blocks" ? "default" : "outline"}
+          size="sm"
+          onClick={() => setMode("blocks")}
+        >
+          <TextQuote className="mr-2 h-4 w-4" />
+          Address text
+        </Button>
+      </div>
+
+      {mode !== "file" ? (
+        <div className="space-y-3">
+          <Textarea
+            value={pastedText}
+            onChange={(e) => setPastedText(e.target.value)}
+            placeholder={
+              mode === "blocks"
+                ? "Max Mustermann\nHauptstr. 5\n12345 Berlin\n\nErika Musterfrau\n..."
+                : "Paste rows copied from Excel, Google Sheets or Outlook"
+            }
+            className="min-h-[200px] font-mono text-xs"
+            aria-label="Pasted data"
+          />
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-xs text-muted-foreground text-left">
+              {mode === "blocks"
+                ? "One address label per block, blocks separated by a blank line."
+                : "Tab-separated rows, with or without a header row."}
+            </p>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setPastedText("")}
+                disabled={!pastedText}
+              >
+                Clear
+              </Button>
+              <Button onClick={handlePasteSubmit} disabled={!pastedText.trim()}>
+                Continue
+              </Button>
+            </div>
+          </div>
         </div>
+      ) : (
+        <div
+          onDrop={handleDrop}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onClick={handleClick}
+          className={cn(
+            "relative flex flex-col items-center gap-4 rounded-lg border-2 border-dashed p-12 text-center transition-colors cursor-pointer",
+            isDragging && "border-primary bg-primary/5",
+            !isDragging && "border-muted-foreground/25 hover:border-primary/50",
+            isLoading && "opacity-50 cursor-not-allowed pointer-events-none"
+          )}
+        >
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_EXTENSIONS}
+            onChange={handleFileSelect}
+            disabled={isLoading}
+            className="hidden"
+            aria-label="Upload file"
+          />
+
+          <div className="mx-auto flex h-12 w-12 items-center justify-center rounded-full bg-muted">
+            <Upload className="h-6 w-6 text-muted-foreground" />
+          </div>
 
-        <div className="space-y-2">
-          <p className="text-lg font-medium">
-            {isLoading ? "Processing file..." : "Upload your file"}
-          </p>
-          <p className="text-sm text-muted-foreground">
-            Drag and drop or click to browse
+          <div className="space-y-2">
+            <p className="text-lg font-medium">
+              {isLoading ? "Processing file..." : "Upload your file"}
+            </p>
+            {progress && (
+              <p className="text-sm text-muted-foreground tabular-nums">
+                {formatProgress(progress)}
+              </p>
+            )}
+            <p className="text-sm text-muted-foreground">
+              Drag and drop or click to browse
+            </p>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Supported formats: CSV, Excel (.xlsx, .xls), ODS, vCard (.vcf), JSON/NDJSON
           </p>
         </div>
+      )}
 
-        <p className="text-xs text-muted-foreground">
-          Supported formats: CSV, Excel (.xlsx, .xls), ODS
-        </p>
-      </div>
+      {cancelTask && (
+        <div className="mt-3 flex justify-center">
+          <Button variant="outline" size="sm" onClick={cancelTask}>
+            Cancel
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
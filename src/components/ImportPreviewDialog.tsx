@@ -0,0 +1,426 @@
+import { useState, useMemo, useCallback, useEffect } from "react";
+import { columnLabel } from "@/lib/mapper";
+import type { RawRow } from "@/lib/mapper";
+import {
+  buildRecords,
+  detectHeaderRow,
+  isBlankRow,
+  recordsToMatrix,
+  DELIMITER_OPTIONS,
+  NO_HEADER_ROW,
+  PREVIEW_ROW_COUNT,
+  QUOTE_OPTIONS,
+} from "@/lib/importer";
+import type { CsvOptions, RawMatrix } from "@/lib/importer";
+import { ENCODING_OPTIONS } from "@/lib/encoding";
+import { extractJsonRecords, JSON_ROOT_PATH } from "@/lib/json";
+import type { JsonRecordPath } from "@/lib/json";
+import type { TextEncoding } from "@/lib/encoding";
+import { formatProgress, runWorkerTask, TaskCancelledError } from "@/lib/workerClient";
+import type { TaskProgress } from "@/lib/workerClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+
+export interface PendingImport {
+  sourceName: string;
+  matrix: RawMatrix;
+  // Present for CSV files so encoding and delimiter can be changed in the preview
+  csv?: {
+    bytes: Uint8Array;
+    detected: CsvOptions;
+  };
+  // Present for JSON files whose records can live at several paths
+  json?: {
+    data: unknown;
+    paths: JsonRecordPath[];
+    detected: string;
+  };
+}
+
+interface ImportPreviewDialogProps {
+  pending: PendingImport | null;
+  canAppend?: boolean;
+  onConfirm: (data: RawRow[], headers: string[], append: boolean) => void;
+  onCancel: () => void;
+}
+
+const MAX_PREVIEW_COLUMNS = 12;
+const MAX_CELL_LENGTH = 30;
+
+export function ImportPreviewDialog({
+  pending,
+  canAppend = false,
+  onConfirm,
+  onCancel,
+}: ImportPreviewDialogProps) {
+  return (
+    <Dialog open={!!pending} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="min-w-[700px] max-w-6xl max-h-[90vh] flex flex-col">
+        {pending && (
+          <ImportPreview
+            pending={pending}
+            canAppend={canAppend}
+            onConfirm={onConfirm}
+            onCancel={onCancel}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ImportPreview({
+  pending,
+  canAppend,
+  onConfirm,
+  onCancel,
+}: Omit<ImportPreviewDialogProps, "pending"> & { pending: PendingImport }) {
+  const { sourceName, csv, json } = pending;
+  const [csvOptions, setCsvOptions] = useState<CsvOptions | undefined>(csv?.detected);
+  const [jsonPath, setJsonPath] = useState<string | undefined>(json?.detected);
+  const [headerRowOverride, setHeaderRowOverride] = useState<number | null>(null);
+  const [skipFooterRows, setSkipFooterRows] = useState(0);
+  const [reparsed, setReparsed] = useState<{ options: CsvOptions; matrix: RawMatrix } | null>(
+    null
+  );
+  const [reparseProgress, setReparseProgress] = useState<TaskProgress | null>(null);
+  const [reparseError, setReparseError] = useState("");
+
+  const csvChanged = Boolean(csv && csvOptions && csvOptions !== csv.detected);
+  const reparsing = csvChanged && reparsed?.options !== csvOptions && !reparseError;
+
+  // Re-parse the original bytes in the worker whenever encoding, delimiter or quote character change
+  useEffect(() => {
+    if (!csv || !csvOptions || csvOptions === csv.detected) return;
+    const task = runWorkerTask(
+      { type: "parseCsv", bytes: csv.bytes, options: csvOptions },
+      setReparseProgress
+    );
+    task.promise
+      .then(({ matrix: parsed }) => {
+        setReparsed({ options: csvOptions, matrix: parsed });
+        setReparseError("");
+        setReparseProgress(null);
+      })
+      .catch((error) => {
+        // A cancelled run has already been replaced by a newer one
+        if (error instanceof TaskCancelledError) return;
+        setReparseError(error instanceof Error ? error.message : String(error));
+        setReparseProgress(null);
+      });
+    return task.cancel;
+  }, [csv, csvOptions]);
+
+  // The previous parse stays visible until the new one is ready
+  const matrix = useMemo(() => {
+    if (csvChanged && reparsed) {
+      return reparsed.matrix;
+    }
+    if (json && jsonPath && jsonPath !== json.detected) {
+      return recordsToMatrix(extractJsonRecords(json.data, jsonPath));
+    }
+    return pending.matrix;
+  }, [csvChanged, reparsed, json, jsonPath, pending.matrix]);
+  const detectedHeaderRow = useMemo(() => detectHeaderRow(matrix), [matrix]);
+  const headerRow = Math.min(
+    headerRowOverride ?? detectedHeaderRow,
+    Math.max(0, matrix.length - 1)
+  );
+
+  const updateCsvOption = useCallback(
+    <K extends keyof CsvOptions>(key: K, value: CsvOptions[K]) => {
+      setCsvOptions((prev) => (prev ? { ...prev, [key]: value } : prev));
+      setHeaderRowOverride(null);
+      setReparseError("");
+    },
+    []
+  );
+
+  const previewRows = useMemo(
+    () => matrix.slice(0, PREVIEW_ROW_COUNT),
+    [matrix]
+  );
+  const previewWidth = useMemo(
+    () =>
+      Math.min(
+        MAX_PREVIEW_COLUMNS,
+        Math.max(0, ...previewRows.map((row) => row.length))
+      ),
+    [previewRows]
+  );
+
+  const result = useMemo(
+    () => buildRecords(matrix, { headerRow, skipFooterRows }),
+    [matrix, headerRow, skipFooterRows]
+  );
+
+  const footerRows = useMemo(
+    () =>
+      skipFooterRows > 0
+        ? matrix.slice(-skipFooterRows).filter((row) => !isBlankRow(row))
+        : [],
+    [matrix, skipFooterRows]
+  );
+
+  const handleConfirm = useCallback(
+    (append: boolean) => {
+      onConfirm(result.rows, result.headers, append);
+    },
+    [onConfirm, result]
+  );
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Import Preview</DialogTitle>
+        <DialogDescription>
+          {sourceName}: check which row holds the column names. Rows above it are skipped;
+          without a header row the columns are named Spalte 1, Spalte 2, …
+        </DialogDescription>
+      </DialogHeader>
+
+      {json && jsonPath && json.paths.length > 1 && (
+        <div className="space-y-2">
+          <Label htmlFor="import-json-path">Records</Label>
+          <Select
+            value={jsonPath}
+            onValueChange={(value) => {
+              setJsonPath(value);
+              setHeaderRowOverride(null);
+            }}
+          >
+            <SelectTrigger id="import-json-path" className="w-72">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {json.paths.map((option) => (
+                <SelectItem key={option.path} value={option.path}>
+                  {option.path === JSON_ROOT_PATH ? "(top level)" : option.path} ({option.count}{" "}
+                  record{option.count !== 1 ? "s" : ""})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {csv && csvOptions && (
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="import-encoding">Encoding</Label>
+            <Select
+              value={csvOptions.encoding}
+              onValueChange={(value) => updateCsvOption("encoding", value as TextEncoding)}
+            >
+              <SelectTrigger id="import-encoding" className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ENCODING_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                    {option.value === csv.detected.encoding ? " (detected)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-delimiter">Delimiter</Label>
+            <Select
+              value={csvOptions.delimiter}
+              onValueChange={(value) => updateCsvOption("delimiter", value)}
+            >
+              <SelectTrigger id="import-delimiter" className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DELIMITER_OPTIONS.map((option) => (
+                  <SelectItem key={option.label} value={option.value}>
+                    {option.label}
+                    {option.value === csv.detected.delimiter ? " (detected)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-quote">Quote character</Label>
+            <Select
+              value={csvOptions.quoteChar}
+              onValueChange={(value) => updateCsvOption("quoteChar", value)}
+            >
+              <SelectTrigger id="import-quote" className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {QUOTE_OPTIONS.map((option) => (
+                  <SelectItem key={option.label} value={option.value}>
+                    {option.label}
+                    {option.value === csv.detected.quoteChar ? " (detected)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {reparsing && (
+            <p className="text-sm text-muted-foreground pb-2 tabular-nums">
+              Reading file{reparseProgress ? ` ${formatProgress(reparseProgress)}` : ""}…
+            </p>
+          )}
+          {reparseError && (
+            <p className="text-sm text-destructive pb-2">
+              Could not read the file with these settings: {reparseError}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="import-header-row">Header row</Label>
+          <Select
+            value={String(headerRow)}
+            onValueChange={(value) => setHeaderRowOverride(Number(value))}
+          >
+            <SelectTrigger id="import-header-row" className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={String(NO_HEADER_ROW)}>
+                No header row
+                {detectedHeaderRow === NO_HEADER_ROW ? " (detected)" : ""}
+              </SelectItem>
+              {previewRows.map((_, idx) => (
+                <SelectItem key={idx} value={String(idx)}>
+                  Row {idx + 1}
+                  {idx === detectedHeaderRow ? " (detected)" : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="import-skip-footer">Skip rows at end</Label>
+          <Input
+            id="import-skip-footer"
+            type="number"
+            min={0}
+            max={Math.max(0, matrix.length - headerRow - 1)}
+            className="w-32"
+            value={skipFooterRows}
+            onChange={(e) =>
+              setSkipFooterRows(Math.max(0, Number(e.target.value) || 0))
+            }
+          />
+        </div>
+        <p className="text-sm text-muted-foreground pb-2">
+          {result.rows.length} data row{result.rows.length !== 1 ? "s" : ""},{" "}
+          {result.headers.length} column{result.headers.length !== 1 ? "s" : ""}
+        </p>
+      </div>
+
+      <div className="rounded-lg border overflow-auto min-h-0 flex-1">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-12">#</TableHead>
+              {Array.from({ length: previewWidth }, (_, col) => (
+                <TableHead key={col} className="text-muted-foreground">
+                  {col + 1}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {previewRows.map((row, rowIdx) => (
+              <TableRow
+                key={rowIdx}
+                onClick={() => setHeaderRowOverride(rowIdx)}
+                className={cn(
+                  "cursor-pointer",
+                  rowIdx < headerRow && "opacity-40",
+                  rowIdx === headerRow && "bg-primary/10 font-semibold"
+                )}
+              >
+                <TableCell className="text-muted-foreground">{rowIdx + 1}</TableCell>
+                {Array.from({ length: previewWidth }, (_, col) => {
+                  const cell = row[col] ?? "";
+                  // Generated columns such as the sheet name are shown under their label
+                  const value = rowIdx === headerRow ? columnLabel(cell, row) : cell;
+                  return (
+                    <TableCell key={col} className="max-w-[200px] truncate" title={value}>
+                      {value.length > MAX_CELL_LENGTH
+                        ? `${value.substring(0, MAX_CELL_LENGTH)}...`
+                        : value}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {footerRows.length > 0 && (
+        <div className="text-xs text-muted-foreground space-y-1">
+          <p>Skipped at end:</p>
+          <ul className="list-disc pl-5">
+            {footerRows.map((row, idx) => (
+              <li key={idx} className="truncate">
+                {row.filter(Boolean).join(" | ")}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        {canAppend && (
+          <Button
+            variant="secondary"
+            onClick={() => handleConfirm(true)}
+            disabled={result.rows.length === 0 || reparsing || Boolean(reparseError)}
+          >
+            Add to current list
+          </Button>
+        )}
+        <Button
+          onClick={() => handleConfirm(false)}
+          disabled={result.rows.length === 0 || reparsing || Boolean(reparseError)}
+        >
+          {canAppend ? "Replace current list" : "Import"} ({result.rows.length} row
+          {result.rows.length !== 1 ? "s" : ""})
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
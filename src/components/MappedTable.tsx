@@ -1,6 +1,9 @@
 import { useMemo, useCallback, useState } from "react";
 import { Download, AlertCircle, Pencil, ChevronDown } from "lucide-react";
+import { ADDRESS_TYPE_OPTIONS, EXPORT_COLUMNS } from "@/lib/mapper";
 import type { MappedAddress } from "@/lib/mapper";
+import { toCP1252Bytes } from "@/lib/encoding";
+import { suggestedCity } from "@/lib/germanPostalCodes";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -39,58 +42,14 @@ interface MappedTableProps {
   senderRow?: MappedAddress | null;
   onEditRow?: (rowIndex: number, updatedRow: MappedAddress) => void;
   onDeleteRow?: (rowIndex: number) => void;
+  // Replaces STADT with the suggested spelling in every German row that has one
+  onApplyCitySuggestions?: () => void;
 }
 
-const HEADERS: (keyof MappedAddress)[] = [
-  "NAME",
-  "ZUSATZ",
-  "STRASSE",
-  "NUMMER",
-  "PLZ",
-  "STADT",
-  "LAND",
-  "ADRESS_TYP",
-  "REFERENZ",
-];
-
-const ADDRESS_TYPE_OPTIONS: { value: MappedAddress["ADRESS_TYP"]; label: string }[] = [
-  { value: "HOUSE", label: "Normale Hausanschrift" },
-  { value: "POBOX", label: "Postfach" },
-  { value: "MAJORRECIPIENT", label: "Großempfänger" },
-];
+const HEADERS = EXPORT_COLUMNS;
 
 const MAX_DISPLAY_LENGTH = 50;
 
-const CP1252_CODEPOINT_TO_BYTE: Record<number, number> = {
-  0x20ac: 0x80,
-  0x201a: 0x82,
-  0x0192: 0x83,
-  0x201e: 0x84,
-  0x2026: 0x85,
-  0x2020: 0x86,
-  0x2021: 0x87,
-  0x02c6: 0x88,
-  0x2030: 0x89,
-  0x0160: 0x8a,
-  0x2039: 0x8b,
-  0x0152: 0x8c,
-  0x017d: 0x8e,
-  0x2018: 0x91,
-  0x2019: 0x92,
-  0x201c: 0x93,
-  0x201d: 0x94,
-  0x2022: 0x95,
-  0x2013: 0x96,
-  0x2014: 0x97,
-  0x02dc: 0x98,
-  0x2122: 0x99,
-  0x0161: 0x9a,
-  0x203a: 0x9b,
-  0x0153: 0x9c,
-  0x017e: 0x9e,
-  0x0178: 0x9f,
-};
-
 const escapeCSVValue = (value: string): string => {
   const escaped = value.replace(/"/g, '""');
   if (escaped.includes(";") || escaped.includes("\n") || escaped.includes('"')) {
@@ -99,25 +58,6 @@ const escapeCSVValue = (value: string): string => {
   return escaped;
 };
 
-const toCP1252Bytes = (input: string): Uint8Array => {
-  const bytes: number[] = [];
-  for (const char of input) {
-    const code = char.codePointAt(0);
-    if (code === undefined) continue;
-    if (code <= 0x7f) {
-      bytes.push(code);
-      continue;
-    }
-    if (code >= 0xa0 && code <= 0xff) {
-      bytes.push(code);
-      continue;
-    }
-    const mapped = CP1252_CODEPOINT_TO_BYTE[code];
-    bytes.push(mapped !== undefined ? mapped : 0x3f);
-  }
-  return new Uint8Array(bytes);
-};
-
 const buildCSVContent = (rows: MappedAddress[], senderRow?: MappedAddress | null): string => {
   const rowsWithSender = senderRow ? [senderRow, ...rows] : rows;
   return [
@@ -147,18 +87,25 @@ export function MappedTable({
   senderRow,
   onEditRow,
   onDeleteRow,
+  onApplyCitySuggestions,
 }: MappedTableProps) {
   const warningCount = useMemo(
     () => Object.keys(warnings).length,
     [warnings]
   );
 
+  const citySuggestionCount = useMemo(
+    () => data.filter((row) => suggestedCity(row) !== null).length,
+    [data]
+  );
+
   const [editingRowIndex, setEditingRowIndex] = useState<number | null>(null);
   const [draftRow, setDraftRow] = useState<MappedAddress | null>(null);
   const [deletingRowIndex, setDeletingRowIndex] = useState<number | null>(null);
   const [showWarningsOnly, setShowWarningsOnly] = useState(false);
   const [showMissingOnly, setShowMissingOnly] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
+  const [sourceFilter, setSourceFilter] = useState("all");
   const [downloadMenuOpen, setDownloadMenuOpen] = useState(false);
 
   const editingEnabled = editable && Boolean(onEditRow);
@@ -176,14 +123,20 @@ export function MappedTable({
     return keysToCheck.some((key) => String(row[key]).trim() === "");
   }, []);
 
+  const sources = useMemo(
+    () => [...new Set(data.map((row) => row.SOURCE).filter(Boolean))] as string[],
+    [data]
+  );
+
+  // Rows keep their position in `data`; REFERENZ is not necessarily index + 1 (e.g. re-imported files)
   const filteredData = useMemo(() => {
     const term = searchTerm.trim().toLowerCase();
-    return data.filter((row) => {
-      const rowIndex = row.REFERENZ - 1;
+    return data.map((row, rowIndex) => ({ row, rowIndex })).filter(({ row, rowIndex }) => {
       const rowWarnings = warnings[rowIndex] || [];
 
       if (showWarningsOnly && rowWarnings.length === 0) return false;
       if (showMissingOnly && !rowHasMissing(row)) return false;
+      if (sourceFilter !== "all" && row.SOURCE !== sourceFilter) return false;
 
       if (!term) return true;
 
@@ -191,7 +144,7 @@ export function MappedTable({
         String(row[header]).toLowerCase().includes(term)
       );
     });
-  }, [data, warnings, showWarningsOnly, showMissingOnly, searchTerm, rowHasMissing]);
+  }, [data, warnings, showWarningsOnly, showMissingOnly, sourceFilter, searchTerm, rowHasMissing]);
 
   const downloadCSV = useCallback(
     (scope: "all" | "local" | "international") => {
@@ -253,7 +206,20 @@ export function MappedTable({
         // When LAND is edited manually, clear any stale unmapped warning flag
         if (field === "LAND") {
           const { LAND_UNMAPPED_ORIGINAL, ...rest } = prev;
-          return { ...rest, LAND: value } as MappedAddress;
+          return {
+            ...rest,
+            LAND: value,
+            LAND_FUZZY_ORIGINAL: undefined,
+            LAND_SUGGESTIONS: undefined,
+            LAND_SOURCE: undefined,
+          } as MappedAddress;
+        }
+        if (field === "ADRESS_TYP") {
+          return { ...prev, ADRESS_TYP: value, ADRESS_TYP_UNMAPPED_ORIGINAL: undefined };
+        }
+        // A corrected street or house number resolves the number conflict
+        if (field === "STRASSE" || field === "NUMMER") {
+          return { ...prev, [field]: value, NUMMER_CONFLICT: undefined, NUMMER_CONFIDENCE: undefined };
         }
         return { ...prev, [field]: value };
       });
@@ -263,7 +229,8 @@ export function MappedTable({
 
   const saveDraft = useCallback(() => {
     if (editingRowIndex === null || !draftRow || !onEditRow) return;
-    onEditRow(editingRowIndex, draftRow);
+    // A manually reviewed row no longer counts as an uncertain free-text match
+    onEditRow(editingRowIndex, { ...draftRow, PARSE_CONFIDENCE: undefined });
     closeEditor();
   }, [editingRowIndex, draftRow, onEditRow, closeEditor]);
 
@@ -327,7 +294,22 @@ export function MappedTable({
           />
           Show rows with missing fields
         </label>
-        {(showWarningsOnly || showMissingOnly || searchTerm) && (
+        {sources.length > 1 && (
+          <Select value={sourceFilter} onValueChange={setSourceFilter}>
+            <SelectTrigger className="w-56" aria-label="Filter by source">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All sources</SelectItem>
+              {sources.map((source) => (
+                <SelectItem key={source} value={source}>
+                  {source}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {(showWarningsOnly || showMissingOnly || sourceFilter !== "all" || searchTerm) && (
           <span className="text-xs text-muted-foreground">
             Showing {filteredData.length} of {data.length} rows
           </span>
@@ -341,6 +323,16 @@ export function MappedTable({
           <AlertDescription className="text-yellow-700">
             {warningCount} row{warningCount !== 1 ? "s have" : " has"} validation warnings.
             Hover over the warning icons in the table for details.
+            {onApplyCitySuggestions && citySuggestionCount > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-2 h-7 px-2 text-xs"
+                onClick={onApplyCitySuggestions}
+              >
+                Apply {citySuggestionCount} city suggestion{citySuggestionCount !== 1 ? "s" : ""}
+              </Button>
+            )}
           </AlertDescription>
         </Alert>
       )}
@@ -358,14 +350,13 @@ export function MappedTable({
             </TableRow>
           </TableHeader>
           <TableBody>
-            {filteredData.map((row) => {
-              const rowIndex = row.REFERENZ - 1;
+            {filteredData.map(({ row, rowIndex }) => {
               const rowWarnings = warnings[rowIndex] || [];
               const hasWarnings = rowWarnings.length > 0;
 
               return (
                 <TableRow
-                  key={row.REFERENZ}
+                  key={rowIndex}
                   className={hasWarnings ? "bg-destructive/5" : undefined}
                 >
                   {HEADERS.map((header) => {
@@ -375,26 +366,52 @@ export function MappedTable({
                       : value;
 
                     return (
-                      <TableCell key={`${row.REFERENZ}-${header}`}>
+                      <TableCell key={`${rowIndex}-${header}`}>
                         <div className="flex items-center gap-2 min-w-0">
                           <span
                             className="truncate min-w-0 flex-1 text-left"
                             title={
-                              header === "LAND" && row.LAND_UNMAPPED_ORIGINAL
-                                ? `Original value: "${row.LAND_UNMAPPED_ORIGINAL}"`
+                              header === "LAND" &&
+                              (row.LAND_UNMAPPED_ORIGINAL || row.LAND_FUZZY_ORIGINAL)
+                                ? `Original value: "${row.LAND_UNMAPPED_ORIGINAL || row.LAND_FUZZY_ORIGINAL}"`
                                 : value
                             }
                           >
                             {displayValue}
                           </span>
-                          {header === "LAND" && row.LAND_UNMAPPED_ORIGINAL && (
+                          {header === "LAND" &&
+                            (row.LAND_UNMAPPED_ORIGINAL || row.LAND_FUZZY_ORIGINAL) && (
                             <span className="relative inline-flex h-5 w-5 items-center justify-center rounded-full bg-amber-100 text-amber-700 ring-1 ring-amber-300 cursor-help group">
                               <AlertCircle className="h-3.5 w-3.5" />
                               <span className="pointer-events-none absolute left-1/2 top-full z-20 mt-1 -translate-x-1/2 whitespace-nowrap rounded-md bg-popover text-popover-foreground border border-border px-2 py-1 text-xs shadow-md opacity-0 transition-opacity duration-75 group-hover:opacity-100 group-focus-visible:opacity-100">
-                                Original: &quot;{row.LAND_UNMAPPED_ORIGINAL}&quot;
+                                Original: &quot;{row.LAND_UNMAPPED_ORIGINAL || row.LAND_FUZZY_ORIGINAL}&quot;
                               </span>
                             </span>
                           )}
+                          {header === "LAND" && row.LAND_SOURCE && (
+                            <span
+                              className="shrink-0 rounded-full bg-sky-100 px-1.5 py-0.5 text-[10px] font-medium text-sky-700 ring-1 ring-sky-300"
+                              title={
+                                row.LAND_SOURCE === "inferred"
+                                  ? "Country was empty and inferred from the postal code"
+                                  : "Country was empty, default country used"
+                              }
+                            >
+                              {row.LAND_SOURCE}
+                            </span>
+                          )}
+                          {header === "NAME" && row.PARSE_CONFIDENCE && (
+                            <span
+                              className={
+                                row.PARSE_CONFIDENCE === "low"
+                                  ? "shrink-0 rounded-full bg-red-100 px-1.5 py-0.5 text-[10px] font-medium text-red-700 ring-1 ring-red-300"
+                                  : "shrink-0 rounded-full bg-amber-100 px-1.5 py-0.5 text-[10px] font-medium text-amber-700 ring-1 ring-amber-300"
+                              }
+                              title="Recognised from free text, please check"
+                            >
+                              {row.PARSE_CONFIDENCE}
+                            </span>
+                          )}
                           {hasWarnings && header === "NAME" && (
                             <span
                               className="relative inline-flex h-5 w-5 items-center justify-center rounded-full bg-amber-100 text-amber-700 ring-1 ring-amber-300 cursor-pointer group"
@@ -494,7 +511,7 @@ export function MappedTable({
                       id={`edit-${header}`}
                       value={draftRow ? String(draftRow[header]) : ""}
                       onChange={(e) => updateDraftField(header, e.target.value)}
-                      disabled={header === "REFERENZ"}
+                      disabled={header === "REFERENZ" && typeof draftRow?.REFERENZ !== "string"}
                     />
                   )}
                 </div>
@@ -0,0 +1,323 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  applicableComposites,
+  applicableSelections,
+  createProfile,
+  loadProfiles,
+  mergeProfiles,
+  parseProfilesFile,
+  saveProfiles,
+  serializeProfiles,
+  suggestProfile,
+} from "@/lib/profiles";
+import type { MappingProfile } from "@/lib/profiles";
+import type { CompositeField, MappingOptions } from "@/lib/mapper";
+import type { Transform } from "@/lib/transforms";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, BookmarkCheck } from "lucide-react";
+
+interface MappingProfilesProps {
+  headers: string[];
+  selections: Record<string, string | undefined>;
+  composites: Record<string, CompositeField | undefined>;
+  options: MappingOptions;
+  transforms: Record<string, Transform[] | undefined>;
+  onApply: (
+    selections: Record<string, string>,
+    composites: Record<string, CompositeField>,
+    options: Partial<MappingOptions>,
+    transforms: Record<string, Transform[]>
+  ) => void;
+}
+
+type NameDialogMode = "save" | "rename";
+
+const sameSelections = (a: Record<string, string | undefined>, b: Record<string, string>) => {
+  const definedA = Object.entries(a).filter(([, source]) => source);
+  return (
+    definedA.length === Object.keys(b).length &&
+    definedA.every(([target, source]) => b[target] === source)
+  );
+};
+
+export function MappingProfiles({
+  headers,
+  selections,
+  composites,
+  options,
+  transforms,
+  onApply,
+}: MappingProfilesProps) {
+  const [profiles, setProfiles] = useState<MappingProfile[]>(() => loadProfiles());
+  const [activeProfileId, setActiveProfileId] = useState<string>("");
+  const [nameDialog, setNameDialog] = useState<NameDialogMode | null>(null);
+  const [profileName, setProfileName] = useState("");
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [dismissedSuggestion, setDismissedSuggestion] = useState<string | null>(null);
+  // Kept local so a bad profile file never touches the loaded addresses
+  const [importError, setImportError] = useState("");
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    saveProfiles(profiles);
+  }, [profiles]);
+
+  const activeProfile = useMemo(
+    () => profiles.find((profile) => profile.id === activeProfileId) ?? null,
+    [profiles, activeProfileId]
+  );
+
+  const suggestion = useMemo(() => suggestProfile(profiles, headers), [profiles, headers]);
+  const showSuggestion =
+    suggestion !== null &&
+    suggestion.profile.id !== dismissedSuggestion &&
+    !sameSelections(selections, applicableSelections(suggestion.profile, headers));
+
+  const applyProfile = useCallback(
+    (profile: MappingProfile) => {
+      setActiveProfileId(profile.id);
+      onApply(
+        applicableSelections(profile, headers),
+        applicableComposites(profile, headers),
+        profile.options ?? {},
+        profile.transforms ?? {}
+      );
+    },
+    [headers, onApply]
+  );
+
+  const openNameDialog = useCallback(
+    (mode: NameDialogMode) => {
+      setProfileName(activeProfile?.name ?? "");
+      setNameDialog(mode);
+    },
+    [activeProfile]
+  );
+
+  const submitName = useCallback(() => {
+    const name = profileName.trim();
+    if (!name) return;
+
+    if (nameDialog === "rename" && activeProfile) {
+      setProfiles((prev) =>
+        prev.map((profile) =>
+          profile.id === activeProfile.id
+            ? { ...profile, name, updatedAt: new Date().toISOString() }
+            : profile
+        )
+      );
+    } else {
+      // Saving under an existing name updates that profile
+      const existing = profiles.find(
+        (profile) => profile.name.toLowerCase() === name.toLowerCase()
+      );
+      const profile = {
+        ...createProfile(name, headers, selections, composites, options, transforms),
+        ...(existing ? { id: existing.id } : {}),
+      };
+      setProfiles((prev) => [
+        ...prev.filter((other) => other.id !== profile.id),
+        profile,
+      ]);
+      setActiveProfileId(profile.id);
+    }
+    setNameDialog(null);
+  }, [profileName, nameDialog, activeProfile, profiles, headers, selections, composites, options, transforms]);
+
+  const deleteProfile = useCallback(() => {
+    if (!activeProfile) return;
+    setProfiles((prev) => prev.filter((profile) => profile.id !== activeProfile.id));
+    setActiveProfileId("");
+    setConfirmDelete(false);
+  }, [activeProfile]);
+
+  const exportProfiles = useCallback(() => {
+    const blob = new Blob([serializeProfiles(profiles)], { type: "application/json" });
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+    link.href = url;
+    link.download = "mapping_profiles.json";
+    link.style.visibility = "hidden";
+
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }, [profiles]);
+
+  const importProfiles = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file) return;
+      try {
+        const incoming = parseProfilesFile(await file.text());
+        setProfiles((prev) => mergeProfiles(prev, incoming));
+        setImportError("");
+      } catch (error) {
+        setImportError(error instanceof Error ? error.message : String(error));
+      }
+    },
+    []
+  );
+
+  return (
+    <div className="space-y-3">
+      {showSuggestion && suggestion && (
+        <Alert className="bg-blue-50 border-blue-200">
+          <BookmarkCheck className="text-blue-600" />
+          <AlertDescription className="text-blue-700">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span>
+                This file matches the saved profile <strong>{suggestion.profile.name}</strong>.
+              </span>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => applyProfile(suggestion.profile)}>
+                  Apply profile
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setDismissedSuggestion(suggestion.profile.id)}
+                >
+                  Dismiss
+                </Button>
+              </div>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={activeProfileId}
+          onValueChange={(id) => {
+            const profile = profiles.find((candidate) => candidate.id === id);
+            if (profile) applyProfile(profile);
+          }}
+          disabled={profiles.length === 0}
+        >
+          <SelectTrigger className="w-[220px]" aria-label="Mapping profile">
+            <SelectValue placeholder={profiles.length ? "Load profile" : "No saved profiles"} />
+          </SelectTrigger>
+          <SelectContent>
+            {profiles.map((profile) => (
+              <SelectItem key={profile.id} value={profile.id}>
+                {profile.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={() => openNameDialog("save")}>
+          Save as profile
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => openNameDialog("rename")}
+          disabled={!activeProfile}
+        >
+          Rename
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setConfirmDelete(true)}
+          disabled={!activeProfile}
+        >
+          Delete
+        </Button>
+        <Button variant="ghost" size="sm" onClick={exportProfiles} disabled={profiles.length === 0}>
+          Export
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => importInputRef.current?.click()}>
+          Import
+        </Button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={importProfiles}
+        />
+      </div>
+
+      {importError && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{importError}</AlertDescription>
+        </Alert>
+      )}
+
+      <Dialog open={nameDialog !== null} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {nameDialog === "rename" ? "Rename profile" : "Save mapping profile"}
+            </DialogTitle>
+            <DialogDescription>
+              {nameDialog === "rename"
+                ? "Enter a new name for the selected profile."
+                : "Saves the current column mapping. Files with the same columns will suggest this profile."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="profile-name">Name</Label>
+            <Input
+              id="profile-name"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && submitName()}
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNameDialog(null)}>
+              Cancel
+            </Button>
+            <Button onClick={submitName} disabled={!profileName.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete profile?</DialogTitle>
+            <DialogDescription>
+              The profile "{activeProfile?.name}" will be removed. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirmDelete(false)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={deleteProfile}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import type {
+  MappingOptions,
+  OrganisationStrategy,
+  SalutationOverflow,
+  TitlePlacement,
+} from "@/lib/mapper";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface RecipientOptionsProps {
+  options: MappingOptions;
+  hasOrganisation: boolean;
+  onChange: (options: MappingOptions) => void;
+}
+
+export function RecipientOptions({ options, hasOrganisation, onChange }: RecipientOptionsProps) {
+  return (
+    <div className="space-y-4 border-t pt-4">
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="include-salutation"
+          checked={options.includeSalutation}
+          onCheckedChange={(checked) => onChange({ ...options, includeSalutation: checked === true })}
+        />
+        <Label htmlFor="include-salutation" className="text-sm font-normal">
+          Add salutation to the recipient ("Frau", "Herrn") following DIN 5008
+        </Label>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="title-placement">Academic titles</Label>
+          <Select
+            value={options.titlePlacement}
+            onValueChange={(value) =>
+              onChange({ ...options, titlePlacement: value as TitlePlacement })
+            }
+          >
+            <SelectTrigger id="title-placement">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="name">Before the name ("Dr. Anna Schulz")</SelectItem>
+              <SelectItem value="salutation">With the salutation ("Frau Dr.")</SelectItem>
+              <SelectItem value="omit">Leave out</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {options.includeSalutation && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="salutation-overflow">If the name gets too long</Label>
+              <Select
+                value={options.salutationOverflow}
+                onValueChange={(value) =>
+                  onChange({ ...options, salutationOverflow: value as SalutationOverflow })
+                }
+              >
+                <SelectTrigger id="salutation-overflow">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="zusatz">Move salutation to the address addition</SelectItem>
+                  <SelectItem value="name">Keep salutation in the name</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="neutral-salutation">Salutation when unknown or diverse</Label>
+              <Input
+                id="neutral-salutation"
+                value={options.neutralSalutation}
+                placeholder="(none, name only)"
+                onChange={(e) => onChange({ ...options, neutralSalutation: e.target.value })}
+              />
+            </div>
+          </>
+        )}
+
+        {hasOrganisation && (
+          <div className="space-y-2">
+            <Label htmlFor="organisation-strategy">Company with contact person</Label>
+            <Select
+              value={options.organisationStrategy}
+              onValueChange={(value) =>
+                onChange({ ...options, organisationStrategy: value as OrganisationStrategy })
+              }
+            >
+              <SelectTrigger id="organisation-strategy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="company">Company as name, "z. Hd. contact" as addition</SelectItem>
+                <SelectItem value="person">Contact as name, "c/o company" as addition</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+import { useMemo, useState } from "react";
+import {
+  createFilterGroup,
+  createFilterRule,
+  FILTER_OPERATOR_LABELS,
+  VALUELESS_OPERATORS,
+} from "@/lib/filters";
+import type { FilterGroup, FilterOperator, FilterResult, FilterRule } from "@/lib/filters";
+import { columnLabel } from "@/lib/mapper";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Plus, X } from "lucide-react";
+
+interface RowFiltersProps {
+  headers: string[];
+  groups: FilterGroup[];
+  result: FilterResult;
+  totalRows: number;
+  onChange: (groups: FilterGroup[]) => void;
+}
+
+// Rendering thousands of excluded rows in the dialog is not useful
+const EXCLUDED_PREVIEW_LIMIT = 200;
+
+export function RowFilters({ headers, groups, result, totalRows, onChange }: RowFiltersProps) {
+  const [showExcluded, setShowExcluded] = useState(false);
+
+  const reasonCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    result.excluded.forEach(({ reason }) => counts.set(reason, (counts.get(reason) ?? 0) + 1));
+    return [...counts.entries()];
+  }, [result.excluded]);
+
+  const updateGroup = (groupIdx: number, group: FilterGroup) =>
+    onChange(groups.map((other, i) => (i === groupIdx ? group : other)));
+
+  const updateRule = (groupIdx: number, ruleIdx: number, rule: FilterRule) =>
+    updateGroup(groupIdx, {
+      ...groups[groupIdx],
+      rules: groups[groupIdx].rules.map((other, i) => (i === ruleIdx ? rule : other)),
+    });
+
+  const removeRule = (groupIdx: number, ruleIdx: number) => {
+    const rules = groups[groupIdx].rules.filter((_, i) => i !== ruleIdx);
+    // A group without rules disappears
+    onChange(
+      rules.length
+        ? groups.map((group, i) => (i === groupIdx ? { ...group, rules } : group))
+        : groups.filter((_, i) => i !== groupIdx)
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {groups.map((group, groupIdx) => (
+        <div key={groupIdx} className="space-y-2">
+          {groupIdx > 0 && (
+            <p className="text-xs font-medium uppercase text-muted-foreground">or</p>
+          )}
+          <div className="space-y-2 rounded-md border p-3">
+            <div className="flex items-center gap-2 text-sm">
+              <span>Exclude rows where</span>
+              <Select
+                value={group.combinator}
+                onValueChange={(value) =>
+                  updateGroup(groupIdx, { ...group, combinator: value as FilterGroup["combinator"] })
+                }
+              >
+                <SelectTrigger className="h-8 w-[90px]" aria-label="Combine conditions">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="and">all</SelectItem>
+                  <SelectItem value="or">any</SelectItem>
+                </SelectContent>
+              </Select>
+              <span>of these conditions match:</span>
+            </div>
+
+            {group.rules.map((rule, ruleIdx) => (
+              <div key={ruleIdx} className="flex flex-wrap items-center gap-2">
+                <Select
+                  value={rule.column}
+                  onValueChange={(column) => updateRule(groupIdx, ruleIdx, { ...rule, column })}
+                >
+                  <SelectTrigger className="h-8 w-[180px]" aria-label="Column">
+                    <SelectValue placeholder="Column" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {headers.map((header) => (
+                      <SelectItem key={header} value={header}>
+                        {columnLabel(header, headers)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={rule.operator}
+                  onValueChange={(operator) =>
+                    updateRule(groupIdx, ruleIdx, { ...rule, operator: operator as FilterOperator })
+                  }
+                >
+                  <SelectTrigger className="h-8 w-[160px]" aria-label="Operator">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FILTER_OPERATOR_LABELS) as FilterOperator[]).map((operator) => (
+                      <SelectItem key={operator} value={operator}>
+                        {FILTER_OPERATOR_LABELS[operator]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {!VALUELESS_OPERATORS.includes(rule.operator) && (
+                  <Input
+                    className="h-8 w-[180px]"
+                    value={rule.value}
+                    placeholder="Value (required)"
+                    aria-label="Value"
+                    onChange={(e) => updateRule(groupIdx, ruleIdx, { ...rule, value: e.target.value })}
+                  />
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  aria-label="Remove condition"
+                  onClick={() => removeRule(groupIdx, ruleIdx)}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() =>
+                updateGroup(groupIdx, {
+                  ...group,
+                  rules: [...group.rules, createFilterRule(headers[0])],
+                })
+              }
+            >
+              <Plus className="h-3.5 w-3.5" />
+              Add condition
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...groups, createFilterGroup(headers[0])])}
+        >
+          <Plus className="h-3.5 w-3.5" />
+          {groups.length ? "Add rule group" : "Add filter rule"}
+        </Button>
+        {result.excluded.length > 0 && (
+          <>
+            <span className="text-sm text-muted-foreground">
+              {result.excluded.length} of {totalRows} rows excluded
+            </span>
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setShowExcluded(true)}>
+              View excluded rows
+            </Button>
+          </>
+        )}
+      </div>
+
+      {reasonCounts.length > 0 && (
+        <ul className="list-disc space-y-1 pl-5 text-sm text-muted-foreground">
+          {reasonCounts.map(([reason, count]) => (
+            <li key={reason}>
+              {count} × {reason}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={showExcluded} onOpenChange={setShowExcluded}>
+        <DialogContent className="sm:max-w-5xl">
+          <DialogHeader>
+            <DialogTitle>Excluded rows</DialogTitle>
+            <DialogDescription>
+              {result.excluded.length > EXCLUDED_PREVIEW_LIMIT
+                ? `Showing the first ${EXCLUDED_PREVIEW_LIMIT} of ${result.excluded.length} excluded rows.`
+                : `${result.excluded.length} rows are not mapped because of the filter rules.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[60vh] overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Reason</TableHead>
+                  {headers.map((header) => (
+                    <TableHead key={header}>{columnLabel(header, headers)}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.excluded.slice(0, EXCLUDED_PREVIEW_LIMIT).map(({ row, reason }, idx) => (
+                  <TableRow key={idx}>
+                    <TableCell className="text-xs text-muted-foreground">{reason}</TableCell>
+                    {headers.map((header) => (
+                      <TableCell key={header}>{String(row[header] ?? "")}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
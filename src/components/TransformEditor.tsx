@@ -0,0 +1,288 @@
+import { useCallback } from "react";
+import {
+  applyTransforms,
+  createTransform,
+  TRANSFORM_LABELS,
+  validateTransform,
+} from "@/lib/transforms";
+import type { Transform, TransformType } from "@/lib/transforms";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowUp, Plus, X } from "lucide-react";
+
+interface TransformEditorProps {
+  fieldLabel: string | null;
+  transforms: Transform[];
+  // Values of the mapped column from the first rows, for the live preview
+  sampleValues: string[];
+  onChange: (transforms: Transform[]) => void;
+  onClose: () => void;
+}
+
+interface TransformSettingsProps {
+  transform: Transform;
+  onChange: (transform: Transform) => void;
+}
+
+function TransformSettings({ transform, onChange }: TransformSettingsProps) {
+  switch (transform.type) {
+    case "regexReplace":
+      return (
+        <div className="grid grid-cols-[1fr_1fr_4rem] gap-2">
+          <Input
+            className="h-8 font-mono"
+            value={transform.pattern}
+            placeholder="Pattern, e.g. str\.$"
+            aria-label="Regular expression"
+            onChange={(e) => onChange({ ...transform, pattern: e.target.value })}
+          />
+          <Input
+            className="h-8"
+            value={transform.replacement}
+            placeholder="Replacement, e.g. straße"
+            aria-label="Replacement"
+            onChange={(e) => onChange({ ...transform, replacement: e.target.value })}
+          />
+          <Input
+            className="h-8 font-mono"
+            value={transform.flags}
+            aria-label="Flags"
+            onChange={(e) => onChange({ ...transform, flags: e.target.value })}
+          />
+        </div>
+      );
+    case "stripPrefix":
+      return (
+        <Input
+          className="h-8"
+          value={transform.prefix}
+          placeholder="Prefix, e.g. '"
+          aria-label="Prefix"
+          onChange={(e) => onChange({ ...transform, prefix: e.target.value })}
+        />
+      );
+    case "emptyIfEquals":
+      return (
+        <Input
+          className="h-8"
+          value={transform.values.join(",")}
+          placeholder="Comma-separated values, e.g. N/A,-"
+          aria-label="Values treated as empty"
+          onChange={(e) => onChange({ ...transform, values: e.target.value.split(",") })}
+        />
+      );
+    case "mapValues":
+      return (
+        <div className="space-y-1">
+          {transform.entries.map((entry, idx) => (
+            <div key={idx} className="flex items-center gap-1">
+              <Input
+                className="h-8"
+                value={entry.from}
+                placeholder="From"
+                aria-label={`Value ${idx + 1}`}
+                onChange={(e) =>
+                  onChange({
+                    ...transform,
+                    entries: transform.entries.map((other, i) =>
+                      i === idx ? { ...other, from: e.target.value } : other
+                    ),
+                  })
+                }
+              />
+              <span className="text-muted-foreground">→</span>
+              <Input
+                className="h-8"
+                value={entry.to}
+                placeholder="To"
+                aria-label={`Replacement ${idx + 1}`}
+                onChange={(e) =>
+                  onChange({
+                    ...transform,
+                    entries: transform.entries.map((other, i) =>
+                      i === idx ? { ...other, to: e.target.value } : other
+                    ),
+                  })
+                }
+              />
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                aria-label="Remove value"
+                onClick={() =>
+                  onChange({
+                    ...transform,
+                    entries: transform.entries.filter((_, i) => i !== idx),
+                  })
+                }
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() =>
+              onChange({ ...transform, entries: [...transform.entries, { from: "", to: "" }] })
+            }
+          >
+            <Plus className="h-3.5 w-3.5" />
+            Add value
+          </Button>
+        </div>
+      );
+    default:
+      return null;
+  }
+}
+
+export function TransformEditor({
+  fieldLabel,
+  transforms,
+  sampleValues,
+  onChange,
+  onClose,
+}: TransformEditorProps) {
+  const updateAt = useCallback(
+    (idx: number, transform: Transform) =>
+      onChange(transforms.map((other, i) => (i === idx ? transform : other))),
+    [transforms, onChange]
+  );
+
+  const moveUp = useCallback(
+    (idx: number) => {
+      const next = [...transforms];
+      [next[idx - 1], next[idx]] = [next[idx], next[idx - 1]];
+      onChange(next);
+    },
+    [transforms, onChange]
+  );
+
+  return (
+    <Dialog open={fieldLabel !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Transforms for {fieldLabel}</DialogTitle>
+          <DialogDescription>
+            Applied in order to the mapped value of every row.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[50vh] space-y-3 overflow-y-auto">
+          {transforms.length === 0 && (
+            <p className="text-sm text-muted-foreground">No transforms yet.</p>
+          )}
+          {transforms.map((transform, idx) => {
+            const error = validateTransform(transform);
+            return (
+              <div key={idx} className="space-y-2 rounded-md border p-2">
+                <div className="flex items-center gap-1">
+                  <span className="flex-1 text-sm font-medium">
+                    {idx + 1}. {TRANSFORM_LABELS[transform.type]}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    aria-label="Move transform up"
+                    disabled={idx === 0}
+                    onClick={() => moveUp(idx)}
+                  >
+                    <ArrowUp className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    aria-label="Remove transform"
+                    onClick={() => onChange(transforms.filter((_, i) => i !== idx))}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+                <TransformSettings
+                  transform={transform}
+                  onChange={(updated) => updateAt(idx, updated)}
+                />
+                {error && <p className="text-xs text-destructive">{error}</p>}
+              </div>
+            );
+          })}
+
+          <Select
+            value=""
+            onValueChange={(type) =>
+              onChange([...transforms, createTransform(type as TransformType)])
+            }
+          >
+            <SelectTrigger className="w-[220px]" aria-label="Add transform">
+              <SelectValue placeholder="Add transform" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(TRANSFORM_LABELS) as TransformType[]).map((type) => (
+                <SelectItem key={type} value={type}>
+                  {TRANSFORM_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {sampleValues.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Original</TableHead>
+                  <TableHead>Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sampleValues.map((value, idx) => {
+                  const result = applyTransforms(value, transforms);
+                  return (
+                    <TableRow key={idx}>
+                      <TableCell className="font-mono text-xs">{value}</TableCell>
+                      <TableCell
+                        className={
+                          result !== value ? "font-mono text-xs text-blue-700" : "font-mono text-xs"
+                        }
+                      >
+                        {result || <span className="text-muted-foreground">(empty)</span>}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={onClose}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
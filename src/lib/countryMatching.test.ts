@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { countryLabel, normalizeCountryName, resolveCountry } from "@/lib/countryMatching";
+import { mapCountry } from "@/lib/mapper";
+
+describe("normalizeCountryName", () => {
+  it.each([
+    ["U.S.A.", "usa"],
+    ["The Czech Republic", "czech"],
+    ["Korea, Republic of", "korea"],
+    ["Österreich", "osterreich"],
+  ])("normalizes %j", (value, expected) => {
+    expect(normalizeCountryName(value)).toBe(expected);
+  });
+});
+
+describe("resolveCountry", () => {
+  it.each([
+    ["Holland", "NLD"],
+    ["Nederland", "NLD"],
+    ["England", "GBR"],
+    ["U.S.A.", "USA"],
+    ["Tschechien", "CZE"],
+    ["BRD", "DEU"],
+    ["Korea, Republic of", "KOR"],
+    ["Frankreich", "FRA"],
+    ["fra", "FRA"],
+  ])("resolves the alias %j", (value, code) => {
+    expect(resolveCountry(value)).toEqual({ code, fuzzy: false, suggestions: [] });
+  });
+
+  it.each([
+    ["Östereich", "AUT"],
+    ["Deutschlnd", "DEU"],
+    ["Schweitz", "CHE"],
+  ])("accepts the typo %j as a fuzzy match", (value, code) => {
+    expect(resolveCountry(value)).toMatchObject({ code, fuzzy: true });
+  });
+
+  it("only suggests close matches without a clear winner", () => {
+    expect(resolveCountry("Frankriech")).toEqual({
+      code: null,
+      fuzzy: false,
+      suggestions: ["FRA"],
+    });
+  });
+
+  it("finds nothing for unknown values", () => {
+    expect(resolveCountry("Atlantis")).toEqual({ code: null, fuzzy: false, suggestions: [] });
+  });
+
+  it("uses learned aliases in any spelling", () => {
+    expect(resolveCountry("BAYERN", { Bayern: "DEU" })).toEqual({
+      code: "DEU",
+      fuzzy: false,
+      suggestions: [],
+    });
+  });
+});
+
+describe("mapCountry", () => {
+  it("falls back to the default country and keeps the original value", () => {
+    expect(mapCountry("Frankriech", {}, "AUT")).toEqual({
+      code: "AUT",
+      unmappedOriginal: "Frankriech",
+      suggestions: ["FRA"],
+    });
+  });
+
+  it("marks fuzzy matches", () => {
+    expect(mapCountry("Östereich")).toEqual({ code: "AUT", fuzzyOriginal: "Östereich" });
+  });
+
+  it("uses the default country for empty values without marking them", () => {
+    expect(mapCountry("  ", {}, "CHE")).toEqual({ code: "CHE" });
+  });
+});
+
+describe("countryLabel", () => {
+  it("adds the German name", () => {
+    expect(countryLabel("AUT")).toBe("AUT (Österreich)");
+    expect(countryLabel("XXX")).toBe("XXX");
+  });
+});
@@ -0,0 +1,208 @@
+// Country resolution: names and codes from countries.json, colloquial aliases, aliases
+// learned from the user and fuzzy matching for typos
+import countriesData from "@/assets/countries.json";
+import { similarity } from "@/lib/utils";
+
+export interface CountryResolution {
+  // ISO alpha-3 code, null when nothing matched well enough
+  code: string | null;
+  // Set when the code was picked by fuzzy matching and should be checked
+  fuzzy: boolean;
+  // Other likely codes, best first
+  suggestions: string[];
+}
+
+// Colloquial, historical and native names that countries.json does not contain
+export const COUNTRY_ALIASES: Record<string, string> = {
+  "U.S.A.": "USA",
+  "U.S.": "USA",
+  US: "USA",
+  America: "USA",
+  Amerika: "USA",
+  "United States": "USA",
+  "Vereinigte Staaten": "USA",
+  UK: "GBR",
+  "United Kingdom": "GBR",
+  "Vereinigtes Königreich": "GBR",
+  "Great Britain": "GBR",
+  Britain: "GBR",
+  Großbritannien: "GBR",
+  England: "GBR",
+  Scotland: "GBR",
+  Schottland: "GBR",
+  Wales: "GBR",
+  "Northern Ireland": "GBR",
+  Nordirland: "GBR",
+  Holland: "NLD",
+  Nederland: "NLD",
+  "The Netherlands": "NLD",
+  Tschechien: "CZE",
+  "Czech Republic": "CZE",
+  Česko: "CZE",
+  "Republic of Korea": "KOR",
+  "South Korea": "KOR",
+  Südkorea: "KOR",
+  Korea: "KOR",
+  "North Korea": "PRK",
+  Nordkorea: "PRK",
+  Russia: "RUS",
+  Bundesrepublik: "DEU",
+  "Bundesrepublik Deutschland": "DEU",
+  BRD: "DEU",
+  Allemagne: "DEU",
+  Duitsland: "DEU",
+  Germania: "DEU",
+  Alemania: "DEU",
+  Oesterreich: "AUT",
+  Autriche: "AUT",
+  Suisse: "CHE",
+  Svizzera: "CHE",
+  Helvetia: "CHE",
+  Belgique: "BEL",
+  België: "BEL",
+  Italia: "ITA",
+  España: "ESP",
+  Polska: "POL",
+  Danmark: "DNK",
+  Sverige: "SWE",
+  Norge: "NOR",
+  Suomi: "FIN",
+  Magyarország: "HUN",
+  Hrvatska: "HRV",
+  Slovensko: "SVK",
+  Slovenija: "SVN",
+  Hellas: "GRC",
+  Türkiye: "TUR",
+  "Ivory Coast": "CIV",
+  UAE: "ARE",
+  VAE: "ARE",
+  Emirates: "ARE",
+};
+
+// Words that don't tell countries apart: "Republic of Korea" and "Korea" are the same key
+const FILLER_WORDS = new Set(["the", "of", "republic", "republik", "der", "die"]);
+
+// Fuzzy matches below this score are not suggested; above ACCEPT they are used directly
+const SUGGEST_SCORE = 0.6;
+const ACCEPT_SCORE = 0.85;
+// Short values ("Irn", "Pery") are too easily confused to accept fuzzily
+const MIN_ACCEPT_LENGTH = 5;
+const MAX_SUGGESTIONS = 3;
+
+export function normalizeCountryName(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/ß/g, "ss")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    // Abbreviations keep their letters together: "U.S.A." -> "usa"
+    .replace(/\./g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter((word) => word && !FILLER_WORDS.has(word))
+    .join(" ");
+}
+
+const buildIndex = (): Map<string, string> => {
+  const index = new Map<string, string>();
+  const add = (name: string, code: string) => {
+    const key = normalizeCountryName(name);
+    // The first (most official) spelling wins when two names normalise alike
+    if (key && !index.has(key)) index.set(key, code);
+  };
+  countriesData.forEach((country) => {
+    add(country.alpha3Code, country.alpha3Code);
+    add(country.alpha2Code, country.alpha3Code);
+    add(country.englishShortName, country.alpha3Code);
+    if (country.germanShortName) add(country.germanShortName, country.alpha3Code);
+  });
+  Object.entries(COUNTRY_ALIASES).forEach(([name, code]) => add(name, code));
+  return index;
+};
+
+const COUNTRY_INDEX = buildIndex();
+
+// Fuzzy ranking is slow and the same unknown value usually repeats on many rows
+const fuzzyCache = new Map<string, { code: string; score: number }[]>();
+
+const rankCountries = (key: string): { code: string; score: number }[] => {
+  const cached = fuzzyCache.get(key);
+  if (cached) return cached;
+  const best = new Map<string, number>();
+  COUNTRY_INDEX.forEach((code, name) => {
+    // Codes are too short to compare fuzzily
+    if (name.length <= 3) return;
+    const score = similarity(key, name);
+    if (score >= SUGGEST_SCORE && score > (best.get(code) ?? 0)) best.set(code, score);
+  });
+  const ranked = [...best.entries()]
+    .map(([code, score]) => ({ code, score }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SUGGESTIONS + 1);
+  fuzzyCache.set(key, ranked);
+  return ranked;
+};
+
+export function resolveCountry(
+  value: string,
+  learned: Record<string, string> = {}
+): CountryResolution {
+  const key = normalizeCountryName(value);
+  const learnedCode = Object.entries(learned).find(
+    ([name]) => normalizeCountryName(name) === key
+  )?.[1];
+  const exact = learnedCode ?? COUNTRY_INDEX.get(key);
+  if (exact) return { code: exact, fuzzy: false, suggestions: [] };
+  if (!key) return { code: null, fuzzy: false, suggestions: [] };
+
+  const ranked = rankCountries(key);
+  const [best, second] = ranked;
+  const clearWinner = best && (!second || best.score - second.score >= 0.1);
+  if (best && clearWinner && best.score >= ACCEPT_SCORE && key.length >= MIN_ACCEPT_LENGTH) {
+    return {
+      code: best.code,
+      fuzzy: true,
+      suggestions: ranked.slice(1, MAX_SUGGESTIONS + 1).map(({ code }) => code),
+    };
+  }
+  return {
+    code: null,
+    fuzzy: false,
+    suggestions: ranked.slice(0, MAX_SUGGESTIONS).map(({ code }) => code),
+  };
+}
+
+// "AUT (Österreich)" for warnings and buttons
+export function countryLabel(code: string): string {
+  const country = countriesData.find((entry) => entry.alpha3Code === code);
+  const name = country ? country.germanShortName || country.englishShortName : "";
+  return name ? `${code} (${name})` : code;
+}
+
+const ALIASES_STORAGE_KEY = "deutsche-post-mail-labels-country-aliases";
+
+// Learned aliases: source value as entered -> alpha-3 code
+export function loadCountryAliases(): Record<string, string> {
+  try {
+    const stored = localStorage.getItem(ALIASES_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) {
+        return Object.fromEntries(
+          Object.entries(parsed).filter(([, code]) => typeof code === "string")
+        ) as Record<string, string>;
+      }
+    }
+  } catch (error) {
+    console.error("Failed to load country aliases:", error);
+  }
+  return {};
+}
+
+export function saveCountryAliases(aliases: Record<string, string>): void {
+  try {
+    localStorage.setItem(ALIASES_STORAGE_KEY, JSON.stringify(aliases));
+  } catch (error) {
+    console.error("Failed to save country aliases:", error);
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { decodeBytes, detectEncoding, toCP1252Bytes } from "@/lib/encoding";
+import type { TextEncoding } from "@/lib/encoding";
+
+const TEXT = "Name;Straße;Ort\nMüller;Hauptstraße 5;Köln";
+
+const utf16 = (text: string, littleEndian: boolean): Uint8Array => {
+  const bytes = new Uint8Array(text.length * 2);
+  const view = new DataView(bytes.buffer);
+  [...text].forEach((char, idx) => view.setUint16(idx * 2, char.charCodeAt(0), littleEndian));
+  return bytes;
+};
+
+const UTF8 = new TextEncoder().encode(TEXT);
+
+const prefixed = (prefix: number[], bytes: Uint8Array) => new Uint8Array([...prefix, ...bytes]);
+
+// € in ISO-8859-15
+const ISO_EURO = new Uint8Array([0xa4]);
+
+describe("detectEncoding", () => {
+  it.each<[string, Uint8Array, TextEncoding]>([
+    ["UTF-8", UTF8, "utf-8"],
+    ["UTF-8 with BOM", prefixed([0xef, 0xbb, 0xbf], UTF8), "utf-8-bom"],
+    ["UTF-16 LE with BOM", prefixed([0xff, 0xfe], utf16(TEXT, true)), "utf-16le"],
+    ["UTF-16 BE with BOM", prefixed([0xfe, 0xff], utf16(TEXT, false)), "utf-16be"],
+    ["UTF-16 LE without BOM", utf16(TEXT, true), "utf-16le"],
+    ["UTF-16 BE without BOM", utf16(TEXT, false), "utf-16be"],
+    ["Windows-1252", toCP1252Bytes(`${TEXT} „Zentrale“`), "windows-1252"],
+    ["ISO-8859-15 with €", prefixed([...toCP1252Bytes("Preis: 5 ")], ISO_EURO), "iso-8859-15"],
+  ])("detects %s", (_, bytes, encoding) => {
+    expect(detectEncoding(bytes)).toBe(encoding);
+  });
+});
+
+describe("decodeBytes", () => {
+  it.each<[TextEncoding, Uint8Array]>([
+    ["utf-8", UTF8],
+    ["utf-8-bom", prefixed([0xef, 0xbb, 0xbf], UTF8)],
+    ["utf-16le", utf16(TEXT, true)],
+    ["windows-1252", toCP1252Bytes(TEXT)],
+  ])("decodes %s", (encoding, bytes) => {
+    expect(decodeBytes(bytes, encoding)).toBe(TEXT);
+  });
+
+  it("reads 0xA4 as € in ISO-8859-15", () => {
+    expect(decodeBytes(ISO_EURO, "iso-8859-15")).toBe("€");
+  });
+});
+
+describe("toCP1252Bytes", () => {
+  it("maps typographic characters and replaces unsupported ones", () => {
+    expect([...toCP1252Bytes("€ „ß“ ć")]).toEqual([
+      0x80, 0x20, 0x84, 0xdf, 0x93, 0x20, 0x3f,
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+// Byte-level text encoding helpers for CSV import and export
+
+export type TextEncoding =
+  | "utf-8"
+  | "utf-8-bom"
+  | "utf-16le"
+  | "utf-16be"
+  | "windows-1252"
+  | "iso-8859-15";
+
+export const ENCODING_OPTIONS: { value: TextEncoding; label: string }[] = [
+  { value: "utf-8", label: "UTF-8" },
+  { value: "utf-8-bom", label: "UTF-8 (BOM)" },
+  { value: "utf-16le", label: "UTF-16 LE" },
+  { value: "utf-16be", label: "UTF-16 BE" },
+  { value: "windows-1252", label: "Windows-1252" },
+  { value: "iso-8859-15", label: "ISO-8859-15" },
+];
+
+const CP1252_CODEPOINT_TO_BYTE: Record<number, number> = {
+  0x20ac: 0x80,
+  0x201a: 0x82,
+  0x0192: 0x83,
+  0x201e: 0x84,
+  0x2026: 0x85,
+  0x2020: 0x86,
+  0x2021: 0x87,
+  0x02c6: 0x88,
+  0x2030: 0x89,
+  0x0160: 0x8a,
+  0x2039: 0x8b,
+  0x0152: 0x8c,
+  0x017d: 0x8e,
+  0x2018: 0x91,
+  0x2019: 0x92,
+  0x201c: 0x93,
+  0x201d: 0x94,
+  0x2022: 0x95,
+  0x2013: 0x96,
+  0x2014: 0x97,
+  0x02dc: 0x98,
+  0x2122: 0x99,
+  0x0161: 0x9a,
+  0x203a: 0x9b,
+  0x0153: 0x9c,
+  0x017e: 0x9e,
+  0x0178: 0x9f,
+};
+
+export const toCP1252Bytes = (input: string): Uint8Array => {
+  const bytes: number[] = [];
+  for (const char of input) {
+    const code = char.codePointAt(0);
+    if (code === undefined) continue;
+    if (code <= 0x7f) {
+      bytes.push(code);
+      continue;
+    }
+    if (code >= 0xa0 && code <= 0xff) {
+      bytes.push(code);
+      continue;
+    }
+    const mapped = CP1252_CODEPOINT_TO_BYTE[code];
+    bytes.push(mapped !== undefined ? mapped : 0x3f);
+  }
+  return new Uint8Array(bytes);
+};
+
+const isValidUTF8 = (bytes: Uint8Array): boolean => {
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Share of zero bytes at even/odd offsets, used to spot UTF-16 without BOM
+const zeroByteRatios = (bytes: Uint8Array): [number, number] => {
+  const sample = bytes.subarray(0, 4096);
+  let even = 0;
+  let odd = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] !== 0) continue;
+    if (i % 2 === 0) even++;
+    else odd++;
+  }
+  const half = Math.max(1, sample.length / 2);
+  return [even / half, odd / half];
+};
+
+export function detectEncoding(bytes: Uint8Array): TextEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return "utf-8-bom";
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le";
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be";
+
+  const [evenZeros, oddZeros] = zeroByteRatios(bytes);
+  if (oddZeros > 0.3 && evenZeros < 0.05) return "utf-16le";
+  if (evenZeros > 0.3 && oddZeros < 0.05) return "utf-16be";
+
+  if (isValidUTF8(bytes)) return "utf-8";
+
+  // 0x80-0x9F are printable in Windows-1252 (€, „, “) but control codes in ISO-8859-15
+  const hasC1Bytes = bytes.some((b) => b >= 0x80 && b <= 0x9f);
+  if (!hasC1Bytes && bytes.includes(0xa4)) {
+    // 0xA4 is € in ISO-8859-15 and the rarely used ¤ in Windows-1252
+    return "iso-8859-15";
+  }
+  return "windows-1252";
+}
+
+export function decodeBytes(bytes: Uint8Array, encoding: TextEncoding): string {
+  switch (encoding) {
+    case "utf-8-bom":
+    case "utf-8":
+      // TextDecoder strips a leading BOM for UTF encodings
+      return new TextDecoder("utf-8").decode(bytes);
+    default:
+      return new TextDecoder(encoding).decode(bytes);
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { applyRowFilter, createFilterGroup, hasActiveRules } from "@/lib/filters";
+import type { FilterGroup, FilterOperator } from "@/lib/filters";
+
+const rows = [
+  { Name: "Anna", Newsletter: "ja" },
+  { Name: "Ben", Newsletter: "nein" },
+  { Name: "", Newsletter: "" },
+];
+
+const group = (operator: FilterOperator, value: string, column = "Newsletter"): FilterGroup => ({
+  combinator: "and",
+  rules: [{ column, operator, value }],
+});
+
+describe("applyRowFilter", () => {
+  it("excludes rows matching a rule", () => {
+    const result = applyRowFilter(rows, [group("equals", "nein")]);
+    expect(result.included).toHaveLength(2);
+    expect(result.excluded).toEqual([{ row: rows[1], reason: 'Newsletter equals "nein"' }]);
+  });
+
+  it("ignores a freshly added rule", () => {
+    const groups = [createFilterGroup("Name")];
+    expect(hasActiveRules(groups)).toBe(false);
+    expect(applyRowFilter(rows, groups).included).toEqual(rows);
+  });
+
+  it.each<FilterOperator>(["equals", "notEquals", "contains", "notContains", "startsWith", "matches"])(
+    "ignores %s without a value",
+    (operator) => {
+      expect(applyRowFilter(rows, [group(operator, "  ")]).included).toEqual(rows);
+    }
+  );
+
+  it("matches empty cells with is empty", () => {
+    const result = applyRowFilter(rows, [group("isEmpty", "")]);
+    expect(result.included).toEqual(rows.slice(0, 2));
+  });
+
+  it("ignores a regex that does not compile", () => {
+    expect(applyRowFilter(rows, [group("matches", "(")]).included).toEqual(rows);
+  });
+});
@@ -0,0 +1,142 @@
+// Row filter rules: rows matching any rule group are excluded before mapping
+import { columnLabel } from "@/lib/mapper";
+import type { RawRow } from "@/lib/mapper";
+
+export type FilterOperator =
+  | "equals"
+  | "notEquals"
+  | "contains"
+  | "notContains"
+  | "startsWith"
+  | "isEmpty"
+  | "isNotEmpty"
+  | "matches";
+
+export interface FilterRule {
+  column: string;
+  operator: FilterOperator;
+  value: string;
+}
+
+// A group matches when all (and) or any (or) of its rules match
+export interface FilterGroup {
+  combinator: "and" | "or";
+  rules: FilterRule[];
+}
+
+export interface ExcludedRow {
+  row: RawRow;
+  reason: string;
+}
+
+export interface FilterResult {
+  included: RawRow[];
+  excluded: ExcludedRow[];
+}
+
+export const FILTER_OPERATOR_LABELS: Record<FilterOperator, string> = {
+  equals: "equals",
+  notEquals: "does not equal",
+  contains: "contains",
+  notContains: "does not contain",
+  startsWith: "starts with",
+  isEmpty: "is empty",
+  isNotEmpty: "is not empty",
+  matches: "matches regex",
+};
+
+// Operators that don't compare against a value
+export const VALUELESS_OPERATORS: FilterOperator[] = ["isEmpty", "isNotEmpty"];
+
+export const createFilterRule = (column = ""): FilterRule => ({
+  column,
+  operator: "equals",
+  value: "",
+});
+
+export const createFilterGroup = (column = ""): FilterGroup => ({
+  combinator: "and",
+  rules: [createFilterRule(column)],
+});
+
+// Rules without a column, without a value (a new rule, or one still being typed) or with
+// a regex that does not compile are ignored; "is empty" is the way to match empty cells
+const isActiveRule = (rule: FilterRule): boolean => {
+  if (!rule.column) return false;
+  if (!VALUELESS_OPERATORS.includes(rule.operator) && !rule.value.trim()) return false;
+  if (rule.operator === "matches") {
+    try {
+      new RegExp(rule.value);
+    } catch {
+      return false;
+    }
+  }
+  return true;
+};
+
+const normalize = (value: unknown): string =>
+  value == null ? "" : String(value).replace(/\s+/g, " ").trim().toLowerCase();
+
+export function matchesRule(row: RawRow, rule: FilterRule): boolean {
+  const cell = normalize(row[rule.column]);
+  const value = normalize(rule.value);
+  switch (rule.operator) {
+    case "equals":
+      return cell === value;
+    case "notEquals":
+      return cell !== value;
+    case "contains":
+      return cell.includes(value);
+    case "notContains":
+      return !cell.includes(value);
+    case "startsWith":
+      return cell.startsWith(value);
+    case "isEmpty":
+      return cell === "";
+    case "isNotEmpty":
+      return cell !== "";
+    case "matches":
+      return new RegExp(rule.value, "i").test(String(row[rule.column] ?? ""));
+  }
+}
+
+export function describeRule(rule: FilterRule): string {
+  const operator = FILTER_OPERATOR_LABELS[rule.operator];
+  const column = columnLabel(rule.column);
+  return VALUELESS_OPERATORS.includes(rule.operator)
+    ? `${column} ${operator}`
+    : `${column} ${operator} "${rule.value}"`;
+}
+
+export function describeGroup(group: FilterGroup): string {
+  return group.rules
+    .filter(isActiveRule)
+    .map(describeRule)
+    .join(group.combinator === "and" ? " and " : " or ");
+}
+
+export const hasActiveRules = (groups: FilterGroup[]): boolean =>
+  groups.some((group) => group.rules.some(isActiveRule));
+
+export function applyRowFilter(rows: RawRow[], groups: FilterGroup[]): FilterResult {
+  const activeGroups = groups
+    .map((group) => ({ group, rules: group.rules.filter(isActiveRule) }))
+    .filter(({ rules }) => rules.length > 0);
+  if (activeGroups.length === 0) return { included: rows, excluded: [] };
+
+  const included: RawRow[] = [];
+  const excluded: ExcludedRow[] = [];
+  rows.forEach((row) => {
+    const match = activeGroups.find(({ group, rules }) =>
+      group.combinator === "and"
+        ? rules.every((rule) => matchesRule(row, rule))
+        : rules.some((rule) => matchesRule(row, rule))
+    );
+    if (match) {
+      excluded.push({ row, reason: describeGroup(match.group) });
+    } else {
+      included.push(row);
+    }
+  });
+  return { included, excluded };
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { parseAddressBlock, parseAddressText, splitAddressBlocks } from "@/lib/freetext";
+import { CONFIDENCE_COLUMN } from "@/lib/mapper";
+import type { RawRow } from "@/lib/mapper";
+
+type Case = [label: string, block: string, expected: RawRow];
+
+const CASES: Case[] = [
+  [
+    "a German person",
+    "Erika Mustermann\nHeidestraße 17\n51147 Köln",
+    {
+      first_name: "Erika",
+      last_name: "Mustermann",
+      street: "Heidestraße 17",
+      postal_code: "51147",
+      city: "Köln",
+    },
+  ],
+  [
+    "a company with an attention line and country",
+    "Beispiel GmbH\nz. Hd. Max Muster\nHauptstraße 5\nD-10115 Berlin\nDeutschland",
+    {
+      organisation: "Beispiel GmbH",
+      first_name: "Max",
+      last_name: "Muster",
+      postal_code: "10115",
+      city: "Berlin",
+      country: "Deutschland",
+    },
+  ],
+  [
+    "a PO box",
+    "Hans Meier\nPostfach 12 34\n1010 Wien\nÖsterreich",
+    { address_addition: "Postfach 12 34", street: "", postal_code: "1010", city: "Wien" },
+  ],
+  [
+    "a UK postcode after the city",
+    "John Smith\n10 Downing Street\nLondon SW1A 2AA\nUnited Kingdom",
+    { street: "10 Downing Street", postal_code: "SW1A 2AA", city: "London" },
+  ],
+  [
+    "a Dutch postcode",
+    "Jan Jansen\nDamrak 1\n1012 AB Amsterdam",
+    { postal_code: "1012 AB", city: "Amsterdam", country: "" },
+  ],
+];
+
+describe("splitAddressBlocks", () => {
+  it("splits on blank lines and tidies whitespace", () => {
+    expect(splitAddressBlocks("  Erika   Mustermann \r\nKöln\r\n \r\n\nMax Muster\n")).toEqual([
+      ["Erika Mustermann", "Köln"],
+      ["Max Muster"],
+    ]);
+  });
+});
+
+describe("parseAddressBlock", () => {
+  it.each(CASES)("reads %s", (_, block, expected) => {
+    expect(parseAddressBlock(block.split("\n"))).toMatchObject({
+      ...expected,
+      [CONFIDENCE_COLUMN]: "high",
+    });
+  });
+
+  it("rates a block without a postal code line as low confidence", () => {
+    expect(parseAddressBlock(["Madonna", "Irgendwo"])[CONFIDENCE_COLUMN]).toBe("low");
+  });
+
+  it("rates a single-word name as medium confidence", () => {
+    const row = parseAddressBlock(["Madonna", "Heidestraße 17", "51147 Köln"]);
+    expect(row).toMatchObject({ first_name: "", last_name: "Madonna" });
+    expect(row[CONFIDENCE_COLUMN]).toBe("medium");
+  });
+});
+
+describe("parseAddressText", () => {
+  it("returns one row per block", () => {
+    const result = parseAddressText("Erika Mustermann\nHeidestraße 17\n51147 Köln\n\nMax Muster");
+    expect(result.rows).toHaveLength(2);
+    expect(result.headers).toContain(CONFIDENCE_COLUMN);
+  });
+});
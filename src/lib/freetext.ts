@@ -0,0 +1,132 @@
+// Heuristic parsing of free-text address labels into structured rows
+import type { ParseConfidence, RawRow } from "@/lib/mapper";
+import { CONFIDENCE_COLUMN, mapCountry } from "@/lib/mapper";
+import type { ImportResult } from "@/lib/importer";
+import { isCompanyName } from "@/lib/names";
+import { parseStreet } from "@/lib/streets";
+
+export const ADDRESS_BLOCK_HEADERS = [
+  "first_name",
+  "last_name",
+  "organisation",
+  "address_addition",
+  "street",
+  "postal_code",
+  "city",
+  "country",
+  CONFIDENCE_COLUMN,
+];
+
+// "12345 Berlin", "D-12345 Berlin", "1010 Wien", "1234 AB Amsterdam", "00-950 Warszawa"
+const POSTAL_CITY_PATTERN =
+  /^(?:[A-Z]{1,3}\s?-\s?)?(\d{4}\s?[A-Z]{2}(?=\s)|\d{4,5}|\d{2}-\d{3})\s+(\S.*)$/;
+// UK style: "London SW1A 1AA"
+const CITY_POSTCODE_PATTERN = /^(\S.*?)\s+([A-Z]{1,2}\d[A-Z\d]?\s?\d[A-Z]{2})$/i;
+
+const ATTENTION_PATTERN = /^(z\.\s?Hd\.?|zu Händen|Attn\.?:?|c\/o)\s*/i;
+
+const PO_BOX_PATTERN = /^(Postfach|Postbox|P\.?\s?O\.?\s?Box|BP|Apartado)\b/i;
+
+export function splitAddressBlocks(text: string): string[][] {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map((block) =>
+      block
+        .split("\n")
+        .map((line) => line.trim().replace(/\s+/g, " "))
+        .filter(Boolean)
+    )
+    .filter((lines) => lines.length > 0);
+}
+
+const matchPostalLine = (line: string): { postalCode: string; city: string } | null => {
+  const match = line.match(POSTAL_CITY_PATTERN);
+  if (match) return { postalCode: match[1], city: match[2] };
+  const uk = line.match(CITY_POSTCODE_PATTERN);
+  if (uk) return { postalCode: uk[2].toUpperCase(), city: uk[1] };
+  return null;
+};
+
+const isStreetLine = (line: string): boolean => {
+  if (PO_BOX_PATTERN.test(line)) return true;
+  return parseStreet(line).number !== "";
+};
+
+export function parseAddressBlock(lines: string[]): RawRow {
+  const row: RawRow = Object.fromEntries(ADDRESS_BLOCK_HEADERS.map((header) => [header, ""]));
+  const remaining = [...lines];
+  let issues = 0;
+
+  // Country is only taken from the last line when it is a known country name or code
+  const lastLine = remaining[remaining.length - 1];
+  if (remaining.length > 1 && !mapCountry(lastLine).unmappedOriginal) {
+    row.country = remaining.pop();
+  }
+
+  // Postal code and city: search from the bottom, labels end with the locality
+  let postalIndex = remaining.length - 1;
+  while (postalIndex >= 0 && !matchPostalLine(remaining[postalIndex])) postalIndex--;
+  if (postalIndex >= 0) {
+    const { postalCode, city } = matchPostalLine(remaining[postalIndex])!;
+    row.postal_code = postalCode;
+    row.city = city;
+    if (postalIndex !== remaining.length - 1) issues++;
+    remaining.splice(postalIndex);
+  } else {
+    issues += 2;
+  }
+
+  // Street: the line right above the locality
+  if (remaining.length > 1 && isStreetLine(remaining[remaining.length - 1])) {
+    const street = remaining.pop()!;
+    if (PO_BOX_PATTERN.test(street)) {
+      row.address_addition = street;
+    } else {
+      row.street = street;
+    }
+  } else if (remaining.length > 1) {
+    row.street = remaining.pop();
+    issues++;
+  } else {
+    issues += 2;
+  }
+
+  // Whatever is left: recipient first, then company or additional lines
+  const [firstLine = "", ...extraLines] = remaining;
+  let personLine = firstLine;
+  if (isCompanyName(firstLine)) {
+    row.organisation = firstLine;
+    personLine = (extraLines.shift() ?? "").replace(ATTENTION_PATTERN, "");
+  }
+  if (personLine) {
+    const parts = personLine.split(" ");
+    row.last_name = parts.length > 1 ? parts[parts.length - 1] : personLine;
+    row.first_name = parts.length > 1 ? parts.slice(0, -1).join(" ") : "";
+    if (parts.length < 2) issues++;
+  } else if (!row.organisation) {
+    issues++;
+  }
+
+  const additions: string[] = [];
+  extraLines.forEach((line) => {
+    if (!row.organisation && isCompanyName(line)) {
+      row.organisation = line;
+    } else {
+      additions.push(line);
+    }
+  });
+  if (additions.length > 1) issues++;
+  row.address_addition = [...additions, String(row.address_addition)].filter(Boolean).join(", ");
+
+  const confidence: ParseConfidence = issues === 0 ? "high" : issues === 1 ? "medium" : "low";
+  row[CONFIDENCE_COLUMN] = confidence;
+  return row;
+}
+
+export function parseAddressText(text: string): ImportResult {
+  return {
+    rows: splitAddressBlocks(text).map(parseAddressBlock),
+    headers: ADDRESS_BLOCK_HEADERS,
+  };
+}
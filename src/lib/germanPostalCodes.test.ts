@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { checkGermanCity, checkRowCity, suggestedCity } from "@/lib/germanPostalCodes";
+import type { GermanCityCheck } from "@/lib/germanPostalCodes";
+import type { MappedAddress } from "@/lib/mapper";
+
+type Case = [postalCode: string, city: string, expected: Partial<GermanCityCheck>];
+
+const CASES: Case[] = [
+  ["80331", "München", { status: "ok" }],
+  ["14476", "Golm", { status: "ok" }],
+
+  // Same place, other spelling
+  ["80331", "Muenchen", { status: "spelling", suggestion: "München" }],
+  ["80331", "MÜNCHEN", { status: "spelling", suggestion: "München" }],
+  ["66386", "Sankt Ingbert", { status: "spelling", suggestion: "St. Ingbert" }],
+  ["60311", "Frankfurt", { status: "spelling", suggestion: "Frankfurt am Main" }],
+  ["10115", "Berlin-Mitte", { status: "spelling", suggestion: "Berlin" }],
+  ["51147", "Koeln-Porz", { status: "spelling", suggestion: "Köln" }],
+
+  // Typos get a suggestion, other places do not
+  ["79098", "Freiburg im Breisgu", { status: "mismatch", suggestion: "Freiburg im Breisgau" }],
+  ["51147", "Hamburg", { status: "mismatch", places: ["Köln"] }],
+
+  ["99999", "Irgendwo", { status: "unknownPostalCode", places: [] }],
+];
+
+const row = (overrides: Partial<MappedAddress>): MappedAddress => ({
+  NAME: "Erika Mustermann",
+  ZUSATZ: "",
+  STRASSE: "Heidestraße",
+  NUMMER: "17",
+  PLZ: "51147",
+  STADT: "Köln",
+  LAND: "DEU",
+  ADRESS_TYP: "HOUSE",
+  REFERENZ: 1,
+  ...overrides,
+});
+
+describe("checkGermanCity", () => {
+  it.each(CASES)("checks %s %j", (postalCode, city, expected) => {
+    expect(checkGermanCity(postalCode, city)).toMatchObject(expected);
+  });
+
+  it("suggests nothing for a different place", () => {
+    expect(checkGermanCity("51147", "Hamburg")).not.toHaveProperty("suggestion");
+  });
+
+  it.each([
+    ["1067", "Dresden"],
+    ["A-1010", "Wien"],
+    ["01067", ""],
+    [undefined, "Dresden"],
+  ])("skips %j %j", (postalCode, city) => {
+    expect(checkGermanCity(postalCode, city)).toBeNull();
+  });
+});
+
+describe("suggestedCity", () => {
+  it("suggests the official spelling for German rows", () => {
+    expect(suggestedCity(row({ STADT: "Koeln" }))).toBe("Köln");
+    expect(suggestedCity(row({ STADT: "Köln" }))).toBeNull();
+  });
+
+  it("only checks German rows", () => {
+    expect(checkRowCity(row({ LAND: "AUT", PLZ: "51147", STADT: "Hamburg" }))).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+// Offline check of German postal codes against the places (Orte) they belong to
+import postalCodePlaces from "@/assets/plz-de.json";
+import type { MappedAddress } from "@/lib/mapper";
+import { similarity } from "@/lib/utils";
+
+export type GermanCityStatus = "ok" | "unknownPostalCode" | "spelling" | "mismatch";
+
+export interface GermanCityCheck {
+  status: GermanCityStatus;
+  // Official spelling of the place the city most likely means
+  suggestion?: string;
+  // Places served by the postal code
+  places: string[];
+}
+
+// Typos closer than this to a place of the postal code are suggested as corrections
+const SUGGEST_SCORE = 0.75;
+
+const PLACES = postalCodePlaces as Record<string, string[]>;
+
+// "München", "Muenchen" and "MUNCHEN" compare alike, as do "St. Ingbert" and "Sankt Ingbert"
+const normalizePlace = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/ß/g, "ss")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\bst\b\.?/g, "sankt")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    // Umlauts written out ("Muenchen") read like the marked ones
+    .replace(/([aou])e/g, "$1");
+
+// Only five-digit codes are looked up; other LAND/PLZ problems are warned about elsewhere
+export function checkGermanCity(postalCode: unknown, city: unknown): GermanCityCheck | null {
+  const postal = postalCode == null ? "" : String(postalCode).trim();
+  const cityValue = city == null ? "" : String(city).trim();
+  if (!/^\d{5}$/.test(postal) || !cityValue) return null;
+
+  const places = PLACES[postal];
+  if (!places) return { status: "unknownPostalCode", places: [] };
+
+  const key = normalizePlace(cityValue);
+  const exact = places.find((place) => normalizePlace(place) === key);
+  if (exact) {
+    return exact === cityValue
+      ? { status: "ok", places }
+      : { status: "spelling", suggestion: exact, places };
+  }
+
+  // "Frankfurt" for "Frankfurt am Main", or a district added: "Berlin-Mitte" for "Berlin"
+  const partial = places.filter((place) => {
+    const placeKey = normalizePlace(place);
+    return placeKey.startsWith(`${key} `) || key.startsWith(`${placeKey} `);
+  });
+  if (partial.length === 1) return { status: "spelling", suggestion: partial[0], places };
+
+  const [best, second] = places
+    .map((place) => ({ place, score: similarity(key, normalizePlace(place)) }))
+    .sort((a, b) => b.score - a.score);
+  const clearWinner = !second || best.score > second.score;
+  if (best.score >= SUGGEST_SCORE && clearWinner) {
+    return { status: "mismatch", suggestion: best.place, places };
+  }
+  return { status: "mismatch", places };
+}
+
+export function checkRowCity(row: MappedAddress): GermanCityCheck | null {
+  return row.LAND === "DEU" ? checkGermanCity(row.PLZ, row.STADT) : null;
+}
+
+// Corrected STADT for German rows, null when the city is fine or has no clear correction
+export function suggestedCity(row: MappedAddress): string | null {
+  return checkRowCity(row)?.suggestion ?? null;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { detectColumns, normalizeHeader } from "@/lib/headerMatching";
+import type { MatchConfidence } from "@/lib/headerMatching";
+
+const TARGETS = [
+  "salutation",
+  "full_name",
+  "first_name",
+  "last_name",
+  "street",
+  "house_number",
+  "organisation",
+  "address_addition",
+  "postal_code",
+  "city",
+  "country",
+  "address_type",
+  "reference",
+] as const;
+
+type Case = [header: string, target: (typeof TARGETS)[number], confidence: MatchConfidence];
+
+const CASES: Case[] = [
+  // Exact synonyms in several languages
+  ["PLZ", "postal_code", "high"],
+  ["Straße", "street", "high"],
+  ["Haus-Nr.", "house_number", "high"],
+  ["Nr.", "house_number", "high"],
+  ["Code postal", "postal_code", "high"],
+  ["Woonplaats", "city", "high"],
+  ["FirstName", "first_name", "high"],
+  ["Kunden-Nr.", "reference", "high"],
+
+  // Typos and synonyms inside longer headers
+  ["Postleitzal", "postal_code", "medium"],
+  ["Lieferadresse Straße", "street", "medium"],
+  ["Anrede für den Brief", "salutation", "low"],
+];
+
+describe("normalizeHeader", () => {
+  it.each([
+    ["Straße", "strasse"],
+    ["Haus-Nr.", "haus nr"],
+    ["firstName", "first name"],
+    ["Adresse1", "adresse 1"],
+    ["Numéro", "numero"],
+  ])("normalizes %j", (header, expected) => {
+    expect(normalizeHeader(header)).toBe(expected);
+  });
+});
+
+describe("detectColumns", () => {
+  it.each(CASES)("matches %j to %s with %s confidence", (header, target, confidence) => {
+    expect(detectColumns([header], TARGETS)[target]).toMatchObject({ header, confidence });
+  });
+
+  it.each(["Telefon Nr", "E-Mail Adresse", "Fax-Nr.", "Bemerkung"])(
+    "leaves %j unmatched",
+    (header) => {
+      expect(detectColumns([header], TARGETS)).toEqual({});
+    }
+  );
+
+  it("assigns each header to one target, best score first", () => {
+    const matches = detectColumns(["Vorname", "Nachname", "Name"], TARGETS);
+    expect(matches.first_name?.header).toBe("Vorname");
+    expect(matches.last_name?.header).toBe("Nachname");
+    const headers = Object.values(matches).map((match) => match?.header);
+    expect(new Set(headers).size).toBe(headers.length);
+  });
+
+  it("does not take a phone number column for the house number", () => {
+    const matches = detectColumns(["Straße", "Telefon Nr", "E-Mail Adresse"], TARGETS);
+    expect(matches.street?.header).toBe("Straße");
+    expect(matches.house_number).toBeUndefined();
+  });
+});
@@ -0,0 +1,174 @@
+// Automatic column detection: matches file headers against multilingual synonyms per target field
+import { DEFAULT_COLUMN_MAPPING } from "@/lib/mapper";
+import { similarity } from "@/lib/utils";
+
+export type MatchConfidence = "high" | "medium" | "low";
+
+export interface HeaderMatch {
+  header: string;
+  score: number;
+  confidence: MatchConfidence;
+}
+
+// Synonyms are compared after normalizeHeader, so case, umlauts and punctuation don't matter
+export const HEADER_SYNONYMS: Record<string, string[]> = {
+  salutation: [
+    "anrede", "briefanrede", "salutation", "title", "form of address",
+    "civilite", "titre", "aanhef", "aanspreektitel",
+  ],
+  full_name: [
+    "vollstaendiger name", "name vollstaendig", "kontakt", "kontaktname", "ansprechpartner",
+    "empfaenger", "full name", "fullname", "contact", "contact name", "recipient",
+    "display name", "nom complet", "destinataire", "volledige naam", "contactpersoon",
+  ],
+  first_name: [
+    "vorname", "rufname", "first name", "firstname", "given name", "forename", "fname",
+    "prenom", "voornaam", "roepnaam",
+  ],
+  last_name: [
+    "nachname", "familienname", "zuname", "name", "last name", "lastname", "surname",
+    "family name", "lname", "nom", "nom de famille", "achternaam", "familienaam",
+  ],
+  street: [
+    "strasse", "str", "strasse und hausnummer", "strasse u hausnr", "strasse hausnummer",
+    "anschrift", "adresse", "adresse 1", "adresszeile 1", "street", "street address",
+    "address", "address 1", "address line 1", "addr", "rue", "adresse postale",
+    "ligne adresse 1", "straat", "straatnaam", "adres", "adresregel 1",
+  ],
+  house_number: [
+    "hausnummer", "hausnr", "haus nr", "nr", "nummer", "house number", "house no",
+    "street number", "number", "no", "numero", "num", "n rue", "huisnummer", "huisnr",
+  ],
+  organisation: [
+    "firma", "firmenname", "unternehmen", "organisation", "organization", "company",
+    "company name", "business name", "institution", "arbeitgeber", "societe", "entreprise",
+    "raison sociale", "bedrijf", "bedrijfsnaam", "org",
+  ],
+  address_addition: [
+    "adresszusatz", "zusatz", "adresse 2", "adresszeile 2", "address 2", "address line 2",
+    "addition", "care of", "c o", "complement", "complement d adresse", "ligne adresse 2",
+    "toevoeging", "adresregel 2",
+  ],
+  postal_code: [
+    "plz", "postleitzahl", "postcode", "post code", "postal code", "zip", "zip code",
+    "zipcode", "code postal", "cp", "postcode nl",
+  ],
+  city: [
+    "ort", "stadt", "wohnort", "ortschaft", "gemeinde", "city", "town", "locality",
+    "ville", "localite", "commune", "plaats", "woonplaats", "stad",
+  ],
+  country: [
+    "land", "staat", "country", "country code", "nation", "pays", "code pays",
+  ],
+  address_type: [
+    "adresstyp", "adressart", "anschriftart", "anschriftstyp", "address type",
+    "type d adresse", "type adresse", "adrestype", "adressoort",
+  ],
+  reference: [
+    "referenz", "kundennummer", "kundennr", "kunden nr", "debitorennummer", "debitor",
+    "reference", "ref", "customer number", "customer no", "customer id", "numero client",
+    "reference client", "klantnummer", "referentie",
+  ],
+};
+
+const HIGH_CONFIDENCE = 0.95;
+const MEDIUM_CONFIDENCE = 0.75;
+// Matches scoring below this are not selected at all
+const MIN_SCORE = 0.6;
+
+export function normalizeHeader(header: string): string {
+  return header
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .replace(/ä/g, "ae")
+    .replace(/ö/g, "oe")
+    .replace(/ü/g, "ue")
+    .replace(/ß/g, "ss")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/([a-z])(\d)/g, "$1 $2")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+// Abbreviations like "nr", "no" or "str" only count as the whole header, not inside "Telefon Nr"
+const SHORT_SYNONYM_LENGTH = 3;
+
+// Words marking a header as other contact data, so "E-Mail Adresse" is no street
+const OTHER_DATA_TOKENS = new Set([
+  "telefon", "tel", "telefonnummer", "phone", "fax", "mobil", "mobile", "handy", "email",
+  "mail", "web", "website", "webseite", "homepage", "url", "internet", "iban", "bic", "konto",
+]);
+
+// 1 for an exact synonym, less for a synonym inside a longer header or a near-miss spelling
+const scoreSynonym = (header: string, synonym: string): number => {
+  if (header === synonym) return 1;
+
+  const headerTokens = header.split(" ");
+  const synonymTokens = synonym.split(" ");
+  let score = 0;
+
+  // "strasse u hausnr" contains "strasse"; more leftover words mean less certainty
+  const contained =
+    synonym.length > SHORT_SYNONYM_LENGTH &&
+    synonymTokens.length < headerTokens.length &&
+    synonymTokens.every((token) => headerTokens.includes(token)) &&
+    !headerTokens.some((token) => OTHER_DATA_TOKENS.has(token));
+  if (contained) {
+    score = 0.65 + 0.3 * (synonymTokens.length / headerTokens.length);
+  }
+
+  // Typos and spacing variants: "postleitzal", "e mail" vs "email"
+  const compactHeader = header.replace(/ /g, "");
+  const compactSynonym = synonym.replace(/ /g, "");
+  if (compactHeader === compactSynonym) return 0.98;
+  if (Math.min(compactHeader.length, compactSynonym.length) >= 4) {
+    const fuzzy = similarity(compactHeader, compactSynonym);
+    if (fuzzy >= 0.8) score = Math.max(score, fuzzy * 0.9);
+  }
+
+  return score;
+};
+
+const toConfidence = (score: number): MatchConfidence =>
+  score >= HIGH_CONFIDENCE ? "high" : score >= MEDIUM_CONFIDENCE ? "medium" : "low";
+
+const synonymsFor = (target: string): string[] => [
+  target,
+  ...(DEFAULT_COLUMN_MAPPING[target] ? [DEFAULT_COLUMN_MAPPING[target]] : []),
+  ...(HEADER_SYNONYMS[target] ?? []),
+];
+
+export function scoreHeader(header: string, target: string): number {
+  const normalized = normalizeHeader(header);
+  if (!normalized) return 0;
+  return Math.max(
+    0,
+    ...synonymsFor(target).map((synonym) => scoreSynonym(normalized, normalizeHeader(synonym)))
+  );
+}
+
+// Assign each header to at most one target, best scores first
+export function detectColumns<K extends string>(
+  headers: string[],
+  targets: readonly K[]
+): Partial<Record<K, HeaderMatch>> {
+  const candidates: { target: K; header: string; score: number }[] = [];
+  targets.forEach((target) => {
+    headers.forEach((header) => {
+      const score = scoreHeader(header, target);
+      if (score >= MIN_SCORE) candidates.push({ target, header, score });
+    });
+  });
+  candidates.sort((a, b) => b.score - a.score);
+
+  const matches: Partial<Record<K, HeaderMatch>> = {};
+  const usedHeaders = new Set<string>();
+  candidates.forEach(({ target, header, score }) => {
+    if (matches[target] || usedHeaders.has(header)) return;
+    matches[target] = { header, score, confidence: toConfidence(score) };
+    usedHeaders.add(header);
+  });
+
+  return matches;
+}
@@ -0,0 +1,88 @@
+// Web Worker entry: parsing and mapping run here, off the UI thread
+import * as XLSX from "xlsx";
+import { detectCsvOptions, parseCsvBytes, toMatrix } from "@/lib/importer";
+import { buildWarnings, mapRow, validateMaxLengths } from "@/lib/mapper";
+import type { MappedAddress } from "@/lib/mapper";
+import type { TaskProgress, WorkerRequest, WorkerResponse } from "@/lib/workerClient";
+
+const MAP_CHUNK_SIZE = 2000;
+
+const post = (message: WorkerResponse) => self.postMessage(message);
+
+const handleTask = (request: WorkerRequest): WorkerResponse => {
+  const { id } = request;
+  const progress = (value: TaskProgress) => post({ id, type: "progress", progress: value });
+
+  switch (request.type) {
+    case "parseCsv": {
+      const options = request.options ?? detectCsvOptions(request.bytes);
+      const matrix = parseCsvBytes(request.bytes, options, (processed, total) =>
+        progress({ processed, total })
+      );
+      return { id, type: "result", result: { matrix, options } };
+    }
+
+    case "parseWorkbook": {
+      const workbook = XLSX.read(request.bytes, {
+        type: "array",
+        cellFormula: false,
+        cellStyles: false,
+      });
+      let processed = 0;
+      const sheets = workbook.SheetNames.map((name: string) => {
+        // Read sheets as plain rows so the header row can be chosen in the preview
+        const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], {
+          header: 1,
+          blankrows: false,
+          defval: "",
+          raw: false,
+        });
+        processed += rows.length;
+        progress({ processed });
+        return { name, matrix: toMatrix(rows) };
+      });
+      return { id, type: "result", result: { sheets } };
+    }
+
+    case "mapRows": {
+      const { rows, mapping, composites, options, transforms, countryAliases } = request;
+      const mapped: MappedAddress[] = [];
+      for (let start = 0; start < rows.length; start += MAP_CHUNK_SIZE) {
+        rows
+          .slice(start, start + MAP_CHUNK_SIZE)
+          .forEach((row, offset) =>
+            mapped.push(
+              mapRow(row, start + offset, mapping, composites, options, transforms, countryAliases)
+            )
+          );
+        progress({ processed: mapped.length, total: rows.length });
+      }
+      return { id, type: "result", result: { mapped, warnings: buildWarnings(mapped) } };
+    }
+
+    case "validateRows": {
+      const { rows } = request;
+      const rowWarnings: string[][] = [];
+      for (let start = 0; start < rows.length; start += MAP_CHUNK_SIZE) {
+        rows
+          .slice(start, start + MAP_CHUNK_SIZE)
+          .forEach((row) => rowWarnings.push(validateMaxLengths(row)));
+        progress({ processed: rowWarnings.length, total: rows.length });
+      }
+      const warnings = buildWarnings(rows, (index) => rowWarnings[index]);
+      return { id, type: "result", result: { warnings } };
+    }
+  }
+};
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  try {
+    post(handleTask(event.data));
+  } catch (error) {
+    post({
+      id: event.data.id,
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
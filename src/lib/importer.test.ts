@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildRecords,
+  combineSheets,
+  detectCsvOptions,
+  detectDelimiter,
+  detectHeaderRow,
+  detectQuoteChar,
+  NO_HEADER_ROW,
+  parseExportedCsv,
+  tagSource,
+} from "@/lib/importer";
+import { columnLabel, EXPORT_COLUMNS, mapRow, SHEET_COLUMN, SOURCE_COLUMN } from "@/lib/mapper";
+
+const exportRow = (reference: string): string[] => [
+  "Erika Mustermann",
+  "",
+  "Heidestraße",
+  "17",
+  "51147",
+  "Köln",
+  "DEU",
+  "HOUSE",
+  reference,
+];
+
+const exported = (...references: string[]) => [
+  [...EXPORT_COLUMNS],
+  exportRow("0"),
+  ...references.map(exportRow),
+];
+
+describe("detectDelimiter", () => {
+  it.each([
+    [";", "Name;Ort\nMüller;Köln\nSchulz;Bonn"],
+    [",", "Name,Ort\nMüller,Köln\nSchulz,Bonn"],
+    ["\t", "Name\tOrt\nMüller\tKöln\nSchulz\tBonn"],
+    ["|", "Name|Ort\nMüller|Köln\nSchulz|Bonn"],
+    // Commas inside quoted fields don't count
+    [";", 'Name;Straße\n"Müller, Hans";"Weg 1, Hinterhaus"\n"Schulz, Anna";Markt 2'],
+  ])("detects %j", (delimiter, text) => {
+    expect(detectDelimiter(text)).toBe(delimiter);
+  });
+});
+
+describe("detectCsvOptions", () => {
+  it("detects encoding, delimiter and quote character together", () => {
+    const text = "Name,Ort\n'Müller, Hans','Köln'\n'Schulz','Bonn'";
+    expect(detectQuoteChar(text)).toBe("'");
+    const bytes = new TextEncoder().encode(text);
+    expect(detectCsvOptions(bytes)).toEqual({ encoding: "utf-8", delimiter: ",", quoteChar: "'" });
+  });
+});
+
+describe("detectHeaderRow", () => {
+  it("takes a header with a blank cell over full data rows", () => {
+    const matrix = [
+      ["Name", "Vorname", "", "PLZ", "Ort"],
+      ["Muster", "Max", "x", "12345", "Berlin"],
+      ["Beispiel", "Erika", "y", "51147", "Köln"],
+    ];
+    expect(detectHeaderRow(matrix)).toBe(0);
+  });
+
+  it("takes a header with a blank cell over text-only data rows", () => {
+    const matrix = [
+      ["Name", "", "Straße", "Ort"],
+      ["Muster", "Max", "Hauptstraße", "Berlin"],
+      ["Beispiel", "Erika", "Heidestraße", "Köln"],
+    ];
+    expect(detectHeaderRow(matrix)).toBe(0);
+  });
+
+  it("skips leading title and date rows", () => {
+    const matrix = [
+      ["Kundenliste"],
+      ["01.03.2024"],
+      [],
+      ["Name", "Straße", "PLZ", "Ort"],
+      ["Erika Mustermann", "Heidestraße 17", "51147", "Köln"],
+    ];
+    expect(detectHeaderRow(matrix)).toBe(3);
+  });
+
+  it("reports files without a header row", () => {
+    const matrix = [
+      ["Erika Mustermann", "Heidestraße 17", "51147", "Köln"],
+      ["Max Muster", "Hauptstraße 1", "10115", "Berlin"],
+    ];
+    expect(detectHeaderRow(matrix)).toBe(NO_HEADER_ROW);
+  });
+});
+
+describe("parseExportedCsv", () => {
+  it("reads the 1..n sequence as row numbers", () => {
+    const { sender, rows } = parseExportedCsv(exported("1", "2", "3"));
+    expect(sender?.REFERENZ).toBe(0);
+    expect(rows.map((row) => row.REFERENZ)).toEqual([1, 2, 3]);
+  });
+
+  it("keeps mapped references as text, including leading zeros", () => {
+    const { rows } = parseExportedCsv(exported("000123", "000124"));
+    expect(rows.map((row) => row.REFERENZ)).toEqual(["000123", "000124"]);
+  });
+
+  it("keeps numeric references that are not the row sequence as text", () => {
+    const { rows } = parseExportedCsv(exported("10", "20"));
+    expect(rows.map((row) => row.REFERENZ)).toEqual(["10", "20"]);
+  });
+});
+
+describe("tagSource", () => {
+  it("keeps a Quelle column of the file apart from the file tag", () => {
+    const { rows, headers } = tagSource(
+      { rows: [{ Name: "A", Quelle: "Messe" }], headers: ["Name", "Quelle"] },
+      "kunden.csv"
+    );
+    expect(rows[0]).toMatchObject({ Quelle: "Messe", [SOURCE_COLUMN]: "kunden.csv" });
+    expect(headers).toEqual(["Name", "Quelle", SOURCE_COLUMN]);
+    expect(headers.map((header) => columnLabel(header, headers))).toEqual([
+      "Name",
+      "Quelle",
+      "Quelle (Datei)",
+    ]);
+  });
+
+  it("shows the file tag as Quelle when the file has no such column", () => {
+    const { headers } = tagSource({ rows: [{ Name: "A" }], headers: ["Name"] }, "kunden.csv");
+    expect(headers.map((header) => columnLabel(header, headers))).toEqual(["Name", "Quelle"]);
+  });
+});
+
+describe("combineSheets", () => {
+  it("keeps a Blatt column of the file apart from the sheet tag", () => {
+    const matrix = combineSheets([
+      { name: "Nord", matrix: [["Name", "Blatt"], ["Erika Mustermann", "A4"]] },
+      { name: "Süd", matrix: [["Name", "Blatt"], ["Max Muster", "A5"]] },
+    ]);
+    const { rows, headers } = buildRecords(matrix, { headerRow: 0, skipFooterRows: 0 });
+    expect(headers).toEqual(["Name", "Blatt", SHEET_COLUMN]);
+    expect(rows[1]).toMatchObject({ Blatt: "A5", [SHEET_COLUMN]: "Süd" });
+    expect(headers.map((header) => columnLabel(header, headers))).toEqual([
+      "Name",
+      "Blatt",
+      "Blatt (Mappe)",
+    ]);
+    expect(mapRow(rows[1], 1, { full_name: "Name" }).SOURCE).toBe("Süd");
+  });
+
+  it("does not read a Blatt column of a single sheet as provenance", () => {
+    const matrix = combineSheets([
+      { name: "Tabelle1", matrix: [["Name", "Blatt"], ["Erika Mustermann", "A4"]] },
+    ]);
+    const { rows } = buildRecords(matrix, { headerRow: 0, skipFooterRows: 0 });
+    expect(mapRow(rows[0], 0, { full_name: "Name" }).SOURCE).toBeUndefined();
+  });
+});
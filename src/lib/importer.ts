@@ -0,0 +1,397 @@
+// Helpers for turning raw sheet/CSV rows into headers and records
+import Papa from "papaparse";
+import { EXPORT_COLUMNS, SHEET_COLUMN, SOURCE_COLUMN } from "@/lib/mapper";
+import type { MappedAddress, RawRow } from "@/lib/mapper";
+import { decodeBytes, detectEncoding } from "@/lib/encoding";
+import type { TextEncoding } from "@/lib/encoding";
+
+export type RawMatrix = string[][];
+
+export interface ImportOptions {
+  headerRow: number; // zero-based index into the matrix, NO_HEADER_ROW for headerless data
+  skipFooterRows: number;
+}
+
+export interface ImportResult {
+  rows: RawRow[];
+  headers: string[];
+}
+
+export interface CsvOptions {
+  encoding: TextEncoding;
+  delimiter: string;
+  quoteChar: string;
+}
+
+// Header row value for data without column names; columns become "Spalte 1..n"
+export const NO_HEADER_ROW = -1;
+
+// Number of raw rows shown in the import preview and scanned for a header
+export const PREVIEW_ROW_COUNT = 20;
+
+export function normalizeMatrix(rows: unknown[][]): RawMatrix {
+  return rows.map((row) =>
+    (row ?? []).map((cell) => (cell == null ? "" : String(cell).trim()))
+  );
+}
+
+export function isBlankRow(row: string[]): boolean {
+  return row.every((cell) => cell.trim() === "");
+}
+
+export function toMatrix(rows: unknown[][]): RawMatrix {
+  return normalizeMatrix(rows).filter((row) => !isBlankRow(row));
+}
+
+export const DELIMITER_OPTIONS: { value: string; label: string }[] = [
+  { value: ";", label: "Semicolon (;)" },
+  { value: ",", label: "Comma (,)" },
+  { value: "\t", label: "Tab" },
+  { value: "|", label: "Pipe (|)" },
+];
+
+export const QUOTE_OPTIONS: { value: string; label: string }[] = [
+  { value: '"', label: 'Double quote (")' },
+  { value: "'", label: "Single quote (')" },
+];
+
+// Count delimiter occurrences per line, ignoring those inside quoted sections
+const countOutsideQuotes = (line: string, delimiter: string, quoteChar: string): number => {
+  let count = 0;
+  let quoted = false;
+  for (const char of line) {
+    if (char === quoteChar) quoted = !quoted;
+    else if (char === delimiter && !quoted) count++;
+  }
+  return count;
+};
+
+export function detectQuoteChar(text: string): string {
+  const sample = text.slice(0, 20000);
+  // A quote character opens or closes a field, so it sits next to delimiters or line breaks
+  const around = (q: string) =>
+    (sample.match(new RegExp(`(^|[;,\\t|])${q}|${q}($|[;,\\t|])`, "gm")) ?? []).length;
+  return around("'") > around('"') ? "'" : '"';
+}
+
+export function detectDelimiter(text: string, quoteChar: string = '"'): string {
+  const lines = text
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "")
+    .slice(0, PREVIEW_ROW_COUNT * 2);
+  if (lines.length === 0) return ";";
+
+  let best = ";";
+  let bestScore = 0;
+
+  DELIMITER_OPTIONS.forEach(({ value }) => {
+    const counts = lines.map((line) => countOutsideQuotes(line, value, quoteChar));
+    const frequency = new Map<number, number>();
+    counts.forEach((c) => {
+      if (c > 0) frequency.set(c, (frequency.get(c) ?? 0) + 1);
+    });
+    if (frequency.size === 0) return;
+
+    // Prefer delimiters that split most lines into the same number of fields
+    const [modeCount, modeLines] = [...frequency.entries()].sort(
+      (a, b) => b[1] - a[1] || b[0] - a[0]
+    )[0];
+    const score = (modeLines / lines.length) * Math.log2(modeCount + 1);
+    if (score > bestScore) {
+      bestScore = score;
+      best = value;
+    }
+  });
+
+  return best;
+}
+
+export function detectCsvOptions(bytes: Uint8Array): CsvOptions {
+  const encoding = detectEncoding(bytes);
+  const text = decodeBytes(bytes, encoding);
+  const quoteChar = detectQuoteChar(text);
+  return { encoding, delimiter: detectDelimiter(text, quoteChar), quoteChar };
+}
+
+export function parsePastedText(text: string): RawMatrix {
+  // Excel, Google Sheets and Outlook all put tab-separated text on the clipboard
+  const delimiter = text.includes("\t") ? "\t" : detectDelimiter(text);
+  const results = Papa.parse<string[]>(text.trim(), {
+    header: false,
+    delimiter,
+    skipEmptyLines: "greedy",
+  });
+  return toMatrix(results.data);
+}
+
+// Progress is reported after every chunk of this many parsed rows
+const CSV_PROGRESS_CHUNK = 1000;
+
+const countLines = (text: string): number => {
+  let count = 1;
+  for (let i = text.indexOf("\n"); i >= 0; i = text.indexOf("\n", i + 1)) count++;
+  return count;
+};
+
+export function parseCsvBytes(
+  bytes: Uint8Array,
+  options: CsvOptions,
+  onProgress?: (processed: number, total: number) => void
+): RawMatrix {
+  const text = decodeBytes(bytes, options.encoding);
+  const total = onProgress ? countLines(text) : 0;
+  const rows: string[][] = [];
+
+  // Stream row by row so progress can be reported while parsing
+  Papa.parse<string[]>(text, {
+    header: false,
+    delimiter: options.delimiter,
+    quoteChar: options.quoteChar,
+    skipEmptyLines: "greedy",
+    step: (results) => {
+      rows.push(results.data);
+      if (onProgress && rows.length % CSV_PROGRESS_CHUNK === 0) {
+        onProgress(rows.length, total);
+      }
+    },
+  });
+  onProgress?.(rows.length, total);
+  return toMatrix(rows);
+}
+
+// Files written by our own CSV export start with exactly the Deutsche Post header
+export function isExportedCsv(matrix: RawMatrix): boolean {
+  const header = matrix[0] ?? [];
+  return (
+    header.length === EXPORT_COLUMNS.length &&
+    EXPORT_COLUMNS.every((column, idx) => header[idx]?.toUpperCase() === column)
+  );
+}
+
+export function parseExportedCsv(matrix: RawMatrix): {
+  sender: MappedAddress | null;
+  rows: MappedAddress[];
+} {
+  const referenceColumn = EXPORT_COLUMNS.indexOf("REFERENZ");
+  const toAddress = (cells: string[], reference: number | string): MappedAddress => {
+    const record = Object.fromEntries(
+      EXPORT_COLUMNS.map((column, col) => [column, cells[col] ?? ""])
+    );
+    return {
+      NAME: record.NAME,
+      ZUSATZ: record.ZUSATZ,
+      STRASSE: record.STRASSE,
+      NUMMER: record.NUMMER,
+      PLZ: record.PLZ,
+      STADT: record.STADT,
+      LAND: record.LAND.toUpperCase(),
+      ADRESS_TYP: record.ADRESS_TYP || "HOUSE",
+      REFERENZ: reference,
+    };
+  };
+
+  // The export always writes the sender as the first data row
+  const [senderCells, ...rowCells] = matrix.slice(1);
+  const references = rowCells.map((cells) => cells[referenceColumn] ?? "");
+  // Only the plain 1..n sequence are row numbers; anything else ("000123", "A-7") was
+  // mapped from a source column and stays text so leading zeros survive the round trip
+  const rowNumbers = references.every((reference, idx) => reference === String(idx + 1));
+  const senderReference = senderCells?.[referenceColumn] ?? "";
+  return {
+    sender: senderCells
+      ? toAddress(senderCells, senderReference === "" || senderReference === "0" ? 0 : senderReference)
+      : null,
+    rows: rowCells.map((cells, idx) =>
+      toAddress(cells, rowNumbers || references[idx] === "" ? idx + 1 : references[idx])
+    ),
+  };
+}
+
+const looksLikeValue = (cell: string): boolean =>
+  // numbers, dates, amounts and similar cells are unlikely to be column names
+  /^[\d\s.,:/+\-€$%()]+$/.test(cell);
+
+export function detectHeaderRow(
+  matrix: RawMatrix,
+  maxScan: number = PREVIEW_ROW_COUNT
+): number {
+  const scanned = matrix.slice(0, maxScan);
+  const filledCount = (row: string[]) => row.filter((cell) => cell !== "").length;
+  const widest = Math.max(0, ...scanned.map(filledCount));
+  if (widest === 0) return 0;
+
+  // The header is the first row naming most columns that is followed by data. Width alone
+  // is no signal: a full data row must not beat a header with a blank cell
+  const index = scanned.findIndex((row, rowIndex) => {
+    const cells = row.filter((cell) => cell !== "");
+    // Title rows and date stamps usually occupy a single cell
+    if (cells.length === 0 || (cells.length < 2 && widest >= 2)) return false;
+    if (cells.length * 2 < widest) return false;
+    // Column names are never numbers; a row holding postal codes is already data
+    if (cells.some(looksLikeValue)) return false;
+
+    const next = matrix.slice(rowIndex + 1).find((r) => !isBlankRow(r));
+    return !next || filledCount(next) >= Math.ceil(cells.length / 2);
+  });
+
+  return index === -1 ? NO_HEADER_ROW : index;
+}
+
+export function buildHeaders(headerCells: string[], width: number): string[] {
+  const seen = new Map<string, number>();
+  const headers: string[] = [];
+
+  for (let col = 0; col < width; col++) {
+    const base = (headerCells[col] ?? "").trim() || `Spalte ${col + 1}`;
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    // Mirror SheetJS behaviour for duplicate column names ("Name", "Name_1")
+    headers.push(count === 0 ? base : `${base}_${count}`);
+  }
+
+  return headers;
+}
+
+export function buildRecords(
+  matrix: RawMatrix,
+  { headerRow, skipFooterRows }: ImportOptions
+): ImportResult {
+  const headerCells = matrix[headerRow] ?? [];
+  const end = Math.max(headerRow + 1, matrix.length - Math.max(0, skipFooterRows));
+  const dataRows = matrix.slice(headerRow + 1, end).filter((row) => !isBlankRow(row));
+
+  const width = Math.max(
+    headerCells.length,
+    ...dataRows.map((row) => row.length)
+  );
+  const allHeaders = buildHeaders(headerCells, width);
+
+  // Drop columns that have neither a header nor any data
+  const keptColumns = allHeaders
+    .map((_, col) => col)
+    .filter(
+      (col) =>
+        (headerCells[col] ?? "").trim() !== "" ||
+        dataRows.some((row) => (row[col] ?? "") !== "")
+    );
+
+  const headers = keptColumns.map((col) => allHeaders[col]);
+  const rows = dataRows.map((row) => {
+    const record: RawRow = {};
+    keptColumns.forEach((col) => {
+      record[allHeaders[col]] = row[col] ?? "";
+    });
+    return record;
+  });
+
+  return { rows, headers };
+}
+
+export function combineSheets(sheets: { name: string; matrix: RawMatrix }[]): RawMatrix {
+  if (sheets.length === 1) return sheets[0].matrix;
+
+  const headerRows = sheets.map(({ matrix }) => detectHeaderRow(matrix));
+
+  // Without a recognisable header in the first sheet, columns can only be aligned by position
+  if (headerRows[0] === NO_HEADER_ROW) {
+    const width = Math.max(0, ...sheets.flatMap(({ matrix }) => matrix.map((row) => row.length)));
+    return sheets.flatMap(({ name, matrix }, idx) =>
+      matrix
+        .slice(headerRows[idx] + 1)
+        .map((row) => [...row, ...Array(width - row.length).fill(""), name])
+    );
+  }
+
+  // Align later sheets by column name so differing column orders still line up
+  const first = sheets[0].matrix;
+  const columns = first[headerRows[0]].filter((cell) => cell !== "");
+  const columnIndex = new Map(columns.map((header, col) => [header.toLowerCase(), col]));
+
+  sheets.slice(1).forEach(({ matrix }, idx) => {
+    const headerRow = headerRows[idx + 1];
+    if (headerRow === NO_HEADER_ROW) return;
+    matrix[headerRow].forEach((cell) => {
+      if (cell && !columnIndex.has(cell.toLowerCase())) {
+        columnIndex.set(cell.toLowerCase(), columns.length);
+        columns.push(cell);
+      }
+    });
+  });
+
+  const combined: RawMatrix = first.slice(0, headerRows[0]);
+  combined.push([...columns, SHEET_COLUMN]);
+
+  sheets.forEach(({ name, matrix }, idx) => {
+    const headerRow = headerRows[idx];
+    const header = headerRow === NO_HEADER_ROW ? columns : matrix[headerRow];
+    matrix.slice(headerRow + 1).forEach((row) => {
+      const aligned: string[] = Array(columns.length).fill("");
+      header.forEach((cell, col) => {
+        const target = columnIndex.get(cell.toLowerCase());
+        if (target !== undefined) aligned[target] = row[col] ?? "";
+      });
+      combined.push([...aligned, name]);
+    });
+  });
+
+  return combined;
+}
+
+// Inverse of buildRecords for sources that are parsed into records directly (vCard, JSON)
+export function recordsToMatrix({ rows, headers }: ImportResult): RawMatrix {
+  return [
+    headers,
+    ...rows.map((row) => headers.map((header) => String(row[header] ?? "").trim())),
+  ];
+}
+
+export function tagSource(
+  { rows, headers }: ImportResult,
+  sourceName: string
+): ImportResult {
+  return {
+    rows: rows.map((row) => ({ ...row, [SOURCE_COLUMN]: sourceName })),
+    headers: headers.includes(SOURCE_COLUMN) ? headers : [...headers, SOURCE_COLUMN],
+  };
+}
+
+export function mergeImports(current: ImportResult, incoming: ImportResult): ImportResult {
+  // Headers differing only in case or surrounding whitespace are treated as the same column
+  const canonical = new Map<string, string>();
+  current.headers.forEach((header) => canonical.set(header.trim().toLowerCase(), header));
+
+  const headers = [...current.headers];
+  const rename = new Map<string, string>();
+  incoming.headers.forEach((header) => {
+    const key = header.trim().toLowerCase();
+    const existing = canonical.get(key);
+    if (existing) {
+      rename.set(header, existing);
+    } else {
+      canonical.set(key, header);
+      headers.push(header);
+      rename.set(header, header);
+    }
+  });
+
+  const fill = (row: RawRow): RawRow => {
+    const record: RawRow = {};
+    headers.forEach((header) => {
+      record[header] = row[header] ?? "";
+    });
+    return record;
+  };
+
+  const incomingRows = incoming.rows.map((row) => {
+    const renamed: RawRow = {};
+    Object.entries(row).forEach(([key, value]) => {
+      renamed[rename.get(key) ?? key] = value;
+    });
+    return fill(renamed);
+  });
+
+  return {
+    rows: [...current.rows.map(fill), ...incomingRows],
+    headers,
+  };
+}
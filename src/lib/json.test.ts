@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  extractJsonRecords,
+  findRecordPaths,
+  flattenRecord,
+  JSON_ROOT_PATH,
+  parseJsonText,
+} from "@/lib/json";
+
+describe("parseJsonText", () => {
+  it("reads a JSON document", () => {
+    expect(parseJsonText(' [{"name": "Erika"}] ')).toEqual([{ name: "Erika" }]);
+  });
+
+  it("reads NDJSON line by line", () => {
+    expect(parseJsonText('{"name": "Erika"}\n\n{"name": "Max"}\r\n')).toEqual([
+      { name: "Erika" },
+      { name: "Max" },
+    ]);
+  });
+
+  it("names the broken NDJSON line", () => {
+    expect(() => parseJsonText('{"name": "Erika"}\n{"name": ')).toThrow("Invalid JSON on line 2");
+  });
+
+  it("rethrows the parse error for a single broken document", () => {
+    expect(() => parseJsonText('{"name": ')).toThrow(SyntaxError);
+  });
+});
+
+describe("findRecordPaths", () => {
+  it("lists nested record arrays, largest first", () => {
+    const data = {
+      meta: { tags: ["a", "b"] },
+      data: { customers: [{ id: 1 }, { id: 2 }], suppliers: [{ id: 3 }] },
+    };
+    expect(findRecordPaths(data)).toEqual([
+      { path: "data.customers", count: 2 },
+      { path: "data.suppliers", count: 1 },
+    ]);
+  });
+
+  it("uses the root path for a top-level array", () => {
+    expect(findRecordPaths([{ id: 1 }])).toEqual([{ path: JSON_ROOT_PATH, count: 1 }]);
+  });
+});
+
+describe("flattenRecord", () => {
+  it("flattens nested objects and arrays into dotted columns", () => {
+    expect(
+      flattenRecord({
+        name: "Erika",
+        address: { street: "Heidestraße 17", zip: 51147 },
+        phones: ["0221 1", null, "0221 2"],
+        contacts: [{ type: "work" }],
+        note: null,
+      })
+    ).toEqual({
+      name: "Erika",
+      "address.street": "Heidestraße 17",
+      "address.zip": "51147",
+      phones: "0221 1, 0221 2",
+      "contacts.0.type": "work",
+      note: "",
+    });
+  });
+});
+
+describe("extractJsonRecords", () => {
+  it("collects the headers of all records in order", () => {
+    const data = { customers: [{ name: "Erika" }, { name: "Max", city: "Köln" }] };
+    expect(extractJsonRecords(data, "customers")).toEqual({
+      rows: [{ name: "Erika" }, { name: "Max", city: "Köln" }],
+      headers: ["name", "city"],
+    });
+  });
+
+  it("reads a single object and primitive entries", () => {
+    expect(extractJsonRecords({ customer: { name: "Erika" } }, "customer").rows).toEqual([
+      { name: "Erika" },
+    ]);
+    expect(extractJsonRecords(["Erika", "Max"], JSON_ROOT_PATH)).toEqual({
+      rows: [{ value: "Erika" }, { value: "Max" }],
+      headers: ["value"],
+    });
+  });
+
+  it("returns no rows for a missing path", () => {
+    expect(extractJsonRecords({}, "customers")).toEqual({ rows: [], headers: [] });
+  });
+});
@@ -0,0 +1,101 @@
+// JSON / NDJSON parsing with nested objects flattened into dotted column names
+import type { RawRow } from "@/lib/mapper";
+import type { ImportResult } from "@/lib/importer";
+
+// Root path value for a file that is itself an array of records
+export const JSON_ROOT_PATH = "$";
+
+export interface JsonRecordPath {
+  path: string;
+  count: number;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export function parseJsonText(text: string): unknown {
+  const trimmed = text.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch (error) {
+    // NDJSON: one JSON value per line
+    const lines = trimmed.split(/\r?\n/).filter((line) => line.trim() !== "");
+    if (lines.length > 1) {
+      return lines.map((line, idx) => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          throw new Error(`Invalid JSON on line ${idx + 1}`);
+        }
+      });
+    }
+    throw error;
+  }
+}
+
+// Find arrays of objects inside the document, largest first
+export function findRecordPaths(data: unknown): JsonRecordPath[] {
+  const paths: JsonRecordPath[] = [];
+
+  const visit = (value: unknown, path: string, depth: number) => {
+    if (depth > 5) return;
+    if (Array.isArray(value)) {
+      const count = value.filter(isPlainObject).length;
+      if (count > 0) paths.push({ path: path || JSON_ROOT_PATH, count });
+      return;
+    }
+    if (isPlainObject(value)) {
+      Object.entries(value).forEach(([key, child]) =>
+        visit(child, path ? `${path}.${key}` : key, depth + 1)
+      );
+    }
+  };
+
+  visit(data, "", 0);
+  return paths.sort((a, b) => b.count - a.count);
+}
+
+const getPath = (data: unknown, path: string): unknown => {
+  if (path === JSON_ROOT_PATH) return data;
+  return path
+    .split(".")
+    .reduce<unknown>((value, key) => (isPlainObject(value) ? value[key] : undefined), data);
+};
+
+export function flattenRecord(value: unknown, prefix = "", target: RawRow = {}): RawRow {
+  if (isPlainObject(value)) {
+    Object.entries(value).forEach(([key, child]) =>
+      flattenRecord(child, prefix ? `${prefix}.${key}` : key, target)
+    );
+  } else if (Array.isArray(value)) {
+    if (value.every((item) => !isPlainObject(item) && !Array.isArray(item))) {
+      target[prefix] = value.filter((item) => item != null).join(", ");
+    } else {
+      value.forEach((item, idx) => flattenRecord(item, `${prefix}.${idx}`, target));
+    }
+  } else if (prefix) {
+    target[prefix] = value == null ? "" : String(value);
+  }
+  return target;
+}
+
+export function extractJsonRecords(data: unknown, path: string): ImportResult {
+  const source = getPath(data, path);
+  const records = Array.isArray(source) ? source : isPlainObject(source) ? [source] : [];
+
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  const rows = records.map((record) => {
+    // Primitive array entries become a single "value" column
+    const row = isPlainObject(record) ? flattenRecord(record) : { value: String(record ?? "") };
+    Object.keys(row).forEach((key) => {
+      if (!seen.has(key)) {
+        seen.add(key);
+        headers.push(key);
+      }
+    });
+    return row;
+  });
+
+  return { rows, headers };
+}
@@ -0,0 +1,204 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildWarnings,
+  composeRecipient,
+  DEFAULT_MAPPING_OPTIONS,
+  mapColumns,
+  mapRow,
+  ownWarnings,
+  resolveAddressType,
+  validateMaxLengths,
+} from "@/lib/mapper";
+import type { MappedAddress, MappingOptions } from "@/lib/mapper";
+import { parseFullName } from "@/lib/names";
+
+const address = (overrides: Partial<MappedAddress> = {}): MappedAddress => ({
+  NAME: "Erika Mustermann",
+  ZUSATZ: "",
+  STRASSE: "Heidestraße",
+  NUMMER: "17",
+  PLZ: "51147",
+  STADT: "Köln",
+  LAND: "DEU",
+  ADRESS_TYP: "HOUSE",
+  REFERENZ: 1,
+  ...overrides,
+});
+
+describe("buildWarnings", () => {
+  it("flags duplicate references across rows", () => {
+    const warnings = buildWarnings([address(), address()]);
+    expect(warnings[0]).toContain("REFERENZ must be unique");
+    expect(warnings[1]).toContain("REFERENZ must be unique");
+  });
+
+  it("reuses known row warnings instead of validating again", () => {
+    const rows = [address(), address({ REFERENZ: 2, NUMMER: "12345678" })];
+    const warnings = buildWarnings(rows, (idx) => (idx === 1 ? ["kept"] : undefined));
+    expect(warnings[0]).toBeUndefined();
+    expect(warnings[1]).toEqual(["kept"]);
+  });
+
+  it("recomputes uniqueness for reused warnings", () => {
+    const before = buildWarnings([address(), address()]);
+    const rows = [address(), address({ REFERENZ: 2 })];
+    const after = buildWarnings(rows, (idx) => ownWarnings(before, idx));
+    expect(after).toEqual({});
+  });
+});
+
+describe("mapRow postal codes", () => {
+  const mapping = { postal_code: "PLZ", city: "Ort", country: "Land", last_name: "Name" };
+
+  it("adds the leading zero to German codes", () => {
+    const row = mapRow({ Name: "A", PLZ: "1067", Ort: "Dresden", Land: "Deutschland" }, 0, mapping);
+    expect(row.PLZ).toBe("01067");
+  });
+
+  it("leaves the postal code alone when the country is only the default", () => {
+    const row = mapRow({ Name: "A", PLZ: "1234", Ort: "Irgendwo", Land: "" }, 0, mapping);
+    expect(row.LAND).toBe("DEU");
+    expect(row.LAND_SOURCE).toBe("default");
+    expect(row.PLZ).toBe("1234");
+    expect(validateMaxLengths(row)).toContain(
+      'LAND is empty and PLZ "1234" fits AUT (Österreich) or CHE (Schweiz), defaulted to DEU'
+    );
+  });
+
+  it("leaves the postal code alone when the country could not be mapped", () => {
+    const row = mapRow({ Name: "A", PLZ: "1234", Ort: "X", Land: "Atlantis" }, 0, mapping);
+    expect(row.PLZ).toBe("1234");
+  });
+});
+
+describe("mapColumns", () => {
+  it("feeds one source column into several targets", () => {
+    const mapped = mapColumns({ Firma: "Acme GmbH", Ort: "Köln" }, {
+      organisation: "Firma",
+      address_addition: "Firma",
+      city: "ort",
+    });
+    expect(mapped).toMatchObject({
+      organisation: "Acme GmbH",
+      address_addition: "Acme GmbH",
+      city: "Köln",
+    });
+    expect(mapped).not.toHaveProperty("firma");
+  });
+
+  it("keeps the mapped organisation when its column also starts a composite", () => {
+    const row = mapRow(
+      { Firma: "Acme GmbH", Abteilung: "Einkauf", Straße: "Heidestraße 17", Ort: "Köln" },
+      0,
+      { organisation: "Firma", address_addition: "Firma", street: "Straße", city: "Ort" },
+      { address_addition: { columns: ["Firma", "Abteilung"], separator: " – " } }
+    );
+    expect(row.NAME).toBe("Acme GmbH");
+    expect(row.ZUSATZ).toBe("Acme GmbH – Einkauf");
+  });
+});
+
+describe("composeRecipient", () => {
+  type Case = [
+    label: string,
+    fullName: string,
+    organisation: string,
+    options: Partial<MappingOptions>,
+    expected: { name: string; addition: string },
+  ];
+
+  const CASES: Case[] = [
+    [
+      "the title before the name",
+      "Frau Dr. Anna Schulz",
+      "",
+      {},
+      { name: "Dr. Anna Schulz", addition: "" },
+    ],
+    [
+      "the salutation",
+      "Frau Dr. Anna Schulz",
+      "",
+      { includeSalutation: true },
+      { name: "Frau Dr. Anna Schulz", addition: "" },
+    ],
+    [
+      "no title",
+      "Frau Dr. Anna Schulz",
+      "",
+      { titlePlacement: "omit" },
+      { name: "Anna Schulz", addition: "" },
+    ],
+    [
+      "the neutral salutation",
+      "Anna Schulz",
+      "",
+      { includeSalutation: true, neutralSalutation: "Familie" },
+      { name: "Familie Anna Schulz", addition: "" },
+    ],
+    [
+      "the salutation in ZUSATZ when NAME is full",
+      "Herr Prof. Dr. Maximilian Alexander Mustermann-Schulze",
+      "",
+      { includeSalutation: true },
+      { name: "Prof. Dr. Maximilian Alexander Mustermann-Schulze", addition: "Herrn" },
+    ],
+    [
+      "the company with a contact person",
+      "Frau Dr. Anna Schulz",
+      "Beispiel GmbH",
+      { includeSalutation: true },
+      { name: "Beispiel GmbH", addition: "z. Hd. Frau Dr. Anna Schulz" },
+    ],
+    [
+      "the person care of the company",
+      "Frau Dr. Anna Schulz",
+      "Beispiel GmbH",
+      { organisationStrategy: "person" },
+      { name: "Dr. Anna Schulz", addition: "c/o Beispiel GmbH" },
+    ],
+  ];
+
+  it.each(CASES)("puts %s on the label", (_, fullName, organisation, options, expected) => {
+    expect(
+      composeRecipient(parseFullName(fullName), organisation, "", {
+        ...DEFAULT_MAPPING_OPTIONS,
+        ...options,
+      })
+    ).toEqual(expected);
+  });
+});
+
+describe("address type and reference columns", () => {
+  const mapping = {
+    full_name: "Name",
+    street: "Straße",
+    postal_code: "PLZ",
+    city: "Ort",
+    address_type: "Typ",
+    reference: "Kundennr",
+  };
+  const source = { Name: "Erika Mustermann", Straße: "Heidestraße 17", PLZ: "51147", Ort: "Köln" };
+
+  it.each([
+    ["POBOX", "POBOX"],
+    ["pf", "POBOX"],
+    ["Großempfänger", "MAJORRECIPIENT"],
+    ["unbekannt", null],
+    ["", null],
+  ])("resolves the address type %j", (value, expected) => {
+    expect(resolveAddressType(value, DEFAULT_MAPPING_OPTIONS.addressTypeValues)).toBe(expected);
+  });
+
+  it("takes type and reference from their columns", () => {
+    const row = mapRow({ ...source, Typ: "PF", Kundennr: "K-007" }, 4, mapping);
+    expect(row.ADRESS_TYP).toBe("POBOX");
+    expect(row.REFERENZ).toBe("K-007");
+  });
+
+  it("falls back to the derived type and the row number for empty values", () => {
+    const row = mapRow({ ...source, Typ: "", Kundennr: "" }, 4, mapping);
+    expect(row.ADRESS_TYP).toBe("HOUSE");
+    expect(row.REFERENZ).toBe(5);
+  });
+});
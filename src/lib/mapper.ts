@@ -1,5 +1,13 @@
 // Mapping logic ported from mapper.py
 import countriesData from "@/assets/countries.json";
+import { formatParsedName, normalizeSalutation, parseFullName } from "@/lib/names";
+import type { ParsedName } from "@/lib/names";
+import { parseStreet } from "@/lib/streets";
+import { countryLabel, resolveCountry } from "@/lib/countryMatching";
+import { checkPostalCode, inferCountry } from "@/lib/postalCodes";
+import { checkRowCity } from "@/lib/germanPostalCodes";
+import { applyTransforms } from "@/lib/transforms";
+import type { Transform } from "@/lib/transforms";
 
 export interface MappedAddress {
   NAME: string;
@@ -10,14 +18,132 @@ export interface MappedAddress {
   STADT: string;
   LAND: string;
   ADRESS_TYP: string;
-  REFERENZ: number;
+  REFERENZ: number | string; // Row number, or the reference mapped from a source column
   LAND_UNMAPPED_ORIGINAL?: string; // Track original unmapped country value
+  LAND_FUZZY_ORIGINAL?: string; // Country value that was matched by similarity only
+  LAND_SUGGESTIONS?: string[]; // Other likely country codes for an unmapped or fuzzy value
+  LAND_SOURCE?: CountrySource; // Set when the country cell was empty
+  ADRESS_TYP_UNMAPPED_ORIGINAL?: string; // Source address type that matched no known value
+  SOURCE?: string; // Name of the imported file (and sheet) the row came from
+  PARSE_CONFIDENCE?: ParseConfidence; // Set for uncertain rows parsed from free-text address blocks
+  NUMMER_CONFLICT?: string; // House number found in the street that differs from the house-number column
+  NUMMER_CONFIDENCE?: ParseConfidence; // Set when the house number was split off the street uncertainly
 }
 
+// Extra column added to every imported row to record which file it came from. Generated
+// columns use reserved keys so a "Quelle" or "Blatt" column of the file itself stays untouched
+export const SOURCE_COLUMN = "__source";
+// Extra column holding the sheet name when several sheets are imported together
+export const SHEET_COLUMN = "__sheet";
+
+// Display names of the generated columns, and the names used when the file has a column of that name
+const GENERATED_COLUMN_LABELS: Record<string, [label: string, clashLabel: string]> = {
+  [SOURCE_COLUMN]: ["Quelle", "Quelle (Datei)"],
+  [SHEET_COLUMN]: ["Blatt", "Blatt (Mappe)"],
+};
+
+// Display name of a source column
+export function columnLabel(column: string, headers: string[] = []): string {
+  const labels = GENERATED_COLUMN_LABELS[column];
+  if (!labels) return column;
+  const [label, clashLabel] = labels;
+  return headers.includes(label) ? clashLabel : label;
+}
+
+export type ParseConfidence = "high" | "medium" | "low";
+
+// How LAND was found for a row without a country: inferred from the postal code
+// (and city), or the configured default country
+export type CountrySource = "inferred" | "default";
+
+// Extra column holding how reliably a free-text address block was split into fields
+export const CONFIDENCE_COLUMN = "Erkennung";
+
+// Column order of the Deutsche Post CSV format
+export const EXPORT_COLUMNS: (keyof MappedAddress)[] = [
+  "NAME",
+  "ZUSATZ",
+  "STRASSE",
+  "NUMMER",
+  "PLZ",
+  "STADT",
+  "LAND",
+  "ADRESS_TYP",
+  "REFERENZ",
+];
+
 export interface RawRow {
   [key: string]: unknown;
 }
 
+// A target fed by several source columns, e.g. Firma + Abteilung into ZUSATZ
+export interface CompositeField {
+  // Ordered source columns; the first is the column selected for the target
+  columns: string[];
+  separator: string;
+  // Optional pattern such as "{Firma} – {Abteilung}"; replaces the separator when set
+  template?: string;
+}
+
+export const DEFAULT_COMPOSITE_SEPARATOR = " ";
+
+export type AddressType = "HOUSE" | "POBOX" | "MAJORRECIPIENT";
+
+export const ADDRESS_TYPE_OPTIONS: { value: AddressType; label: string }[] = [
+  { value: "HOUSE", label: "Normale Hausanschrift" },
+  { value: "POBOX", label: "Postfach" },
+  { value: "MAJORRECIPIENT", label: "Großempfänger" },
+];
+
+// Translates source values of a mapped address-type column, e.g. "PF" -> POBOX
+export interface AddressTypeValue {
+  from: string;
+  to: AddressType;
+}
+
+// How rows with both a company and a contact person are put on the label
+//   company: company on NAME, "z. Hd. <person>" in ZUSATZ
+//   person:  person on NAME, "c/o <company>" in ZUSATZ
+export type OrganisationStrategy = "company" | "person";
+
+// Where academic titles go: before the name ("Dr. Anna Schulz"), together with the
+// salutation ("Frau Dr." – moves with it into ZUSATZ), or left out to save space
+export type TitlePlacement = "name" | "salutation" | "omit";
+
+// What happens when the salutation would push NAME over its limit
+export type SalutationOverflow = "zusatz" | "name";
+
+export interface MappingOptions {
+  organisationStrategy: OrganisationStrategy;
+  includeSalutation: boolean;
+  titlePlacement: TitlePlacement;
+  salutationOverflow: SalutationOverflow;
+  // Used when the salutation is missing or not male/female/family
+  neutralSalutation: string;
+  addressTypeValues: AddressTypeValue[];
+  // Alpha-3 code used for empty or unknown countries that cannot be inferred
+  defaultCountry: string;
+}
+
+export const DEFAULT_MAPPING_OPTIONS: MappingOptions = {
+  organisationStrategy: "company",
+  includeSalutation: false,
+  titlePlacement: "name",
+  salutationOverflow: "zusatz",
+  neutralSalutation: "",
+  addressTypeValues: [
+    { from: "PF", to: "POBOX" },
+    { from: "Postfach", to: "POBOX" },
+    { from: "GE", to: "MAJORRECIPIENT" },
+    { from: "Großempfänger", to: "MAJORRECIPIENT" },
+    { from: "Haus", to: "HOUSE" },
+  ],
+  defaultCountry: "DEU",
+};
+
+const NAME_MAX_LENGTH = 50;
+const ZUSATZ_MAX_LENGTH = 50;
+
 export interface Country {
   englishShortName: string;
   alpha2Code: string;
@@ -53,15 +179,16 @@ export const countryMapping = buildCountryMapping();
 // Export countries for dropdown
 export const countries = countriesData;
 
+// Mappings are keyed by target field, so one source column can feed several targets
 export const DEFAULT_COLUMN_MAPPING: { [key: string]: string } = {
-  Anrede: "salutation",
-  Vorname: "first_name",
-  Name: "last_name",
-  Adresse1: "street",
-  Adresse2: "address_addition",
-  PLZ: "postal_code",
-  Ort: "city",
-  Land: "country",
+  salutation: "Anrede",
+  first_name: "Vorname",
+  last_name: "Name",
+  street: "Adresse1",
+  address_addition: "Adresse2",
+  postal_code: "PLZ",
+  city: "Ort",
+  country: "Land",
 };
 
 export function mapColumns(
@@ -71,40 +198,51 @@ export function mapColumns(
   [key: string]: unknown;
 } {
   const mapping = customMapping ?? DEFAULT_COLUMN_MAPPING;
-  const normalizedMapping: Record<string, string> = {};
-
-  // normalize keys to lowercase for case-insensitive matching
-  Object.entries(mapping).forEach(([source, target]) => {
-    normalizedMapping[source.toLowerCase()] = target;
-  });
+  const mappedSources = new Set(Object.values(mapping).map((source) => source.toLowerCase()));
 
   const mapped: { [key: string]: unknown } = {};
 
+  // Unmapped columns stay available under their lowercased name
   Object.entries(row).forEach(([key, value]) => {
     const lowerKey = key.toLowerCase();
-    if (normalizedMapping[lowerKey]) {
-      mapped[normalizedMapping[lowerKey]] = value;
-    } else {
+    if (!mappedSources.has(lowerKey)) {
       mapped[lowerKey] = value;
     }
   });
 
+  Object.entries(mapping).forEach(([target, source]) => {
+    const key = findColumn(row, source);
+    if (key !== undefined) {
+      mapped[target] = row[key];
+    }
+  });
+
   return mapped;
 }
 
 export function mapCountry(
-  country: unknown
-): { code: string; unmappedOriginal?: string } {
-  if (!country) return { code: "DEU" };
+  country: unknown,
+  aliases: Record<string, string> = {},
+  fallback = DEFAULT_MAPPING_OPTIONS.defaultCountry
+): { code: string; unmappedOriginal?: string; fuzzyOriginal?: string; suggestions?: string[] } {
+  if (!country) return { code: fallback };
   const countryStr = String(country).trim();
-  if (!countryStr) return { code: "DEU" };
+  if (!countryStr) return { code: fallback };
 
   const mapped = countryMapping[countryStr.toLowerCase()];
   if (mapped) {
     return { code: mapped };
   }
-  // Country not found: default to DEU but track original
-  return { code: "DEU", unmappedOriginal: countryStr };
+  // Aliases, normalised spellings and typos
+  const resolved = resolveCountry(countryStr, aliases);
+  const suggestions = resolved.suggestions.length ? resolved.suggestions : undefined;
+  if (resolved.code) {
+    return resolved.fuzzy
+      ? { code: resolved.code, fuzzyOriginal: countryStr, suggestions }
+      : { code: resolved.code };
+  }
+  // Country not found: use the default country but track original
+  return { code: fallback, unmappedOriginal: countryStr, suggestions };
 }
 
 export function createFullName(
@@ -118,7 +256,7 @@ export function createFullName(
 
 export function mapAddressType(
   addressAddition: unknown
-): "POBOX" | "HOUSE" | "MAJORRECIPIENT" {
+): AddressType {
   if (addressAddition) {
     const additionStr = String(addressAddition);
     if (additionStr.includes("Postfach")) {
@@ -131,37 +269,45 @@ export function mapAddressType(
   return "HOUSE";
 }
 
-export function splitStreetNumber(
-  street: unknown
-): [string, string] {
-  if (!street) return ["", ""];
-
-  const s = String(street).trim();
-  if (!s) return ["", ""];
+// Resolves a value of a mapped address-type column; null when it matches nothing
+export function resolveAddressType(
+  value: unknown,
+  table: AddressTypeValue[]
+): AddressType | null {
+  const key = cleanValue(value).toLowerCase();
+  if (!key) return null;
+  const direct = ADDRESS_TYPE_OPTIONS.find((option) => option.value.toLowerCase() === key);
+  if (direct) return direct.value;
+  return table.find((entry) => entry.from.trim().toLowerCase() === key)?.to ?? null;
+}
 
-  // Match trailing number (e.g., "Musterstraße 12a")
-  const trailingMatch = s.match(/^(.*\S)\s+(\d+[A-Za-z\-\/]?)$/);
-  if (trailingMatch) {
-    return [trailingMatch[1], trailingMatch[2]];
+// With a house-number column the street is taken as is; a number inside the street
+// is only split off when it repeats that column, otherwise it is reported as a conflict
+export function resolveStreetNumber(
+  street: unknown,
+  houseNumber: unknown,
+  country = ""
+): {
+  street: string;
+  number: string;
+  addition: string;
+  confidence: ParseConfidence;
+  poBox: boolean;
+  conflict?: string;
+} {
+  const number = cleanValue(houseNumber);
+  const parsed = parseStreet(street, country);
+  if (!number) {
+    return parsed;
   }
-
-  // Fallback: if last token contains any digit, assume it's the number
-  const parts = s.split(/\s+/);
-  if (parts.length >= 2) {
-    const lastPart = parts[parts.length - 1];
-    if (/\d/.test(lastPart)) {
-      return [parts.slice(0, -1).join(" "), lastPart];
-    }
+  const unsplit = { street: cleanValue(street), number, addition: "", confidence: "high" as const };
+  if (!parsed.number) {
+    return { ...unsplit, poBox: parsed.poBox };
   }
-
-  // Check if first token is a number (e.g., for US addresses)
-  const firstParts = s.split(/\s+/);
-  if (firstParts.length >= 2 && /\d/.test(firstParts[0])) {
-    return [firstParts.slice(1).join(" "), firstParts[0]];
+  if (parsed.number.toLowerCase() === number.toLowerCase()) {
+    return { ...parsed, number, confidence: "high" };
   }
-
-  // Otherwise number unknown
-  return [s, ""];
+  return { ...unsplit, poBox: parsed.poBox, conflict: parsed.number };
 }
 
 export function cleanValue(value: unknown): string {
@@ -172,59 +318,238 @@ export function cleanValue(value: unknown): string {
   return str;
 }
 
+// Case-insensitive column lookup, used for mapped and composed source columns alike
+function findColumn(row: RawRow, column: string): string | undefined {
+  return column in row
+    ? column
+    : Object.keys(row).find((candidate) => candidate.toLowerCase() === column.toLowerCase());
+}
+
+const getColumnValue = (row: RawRow, column: string): string => {
+  const key = findColumn(row, column);
+  return key === undefined ? "" : cleanValue(row[key]);
+};
+
+export function composeValue(row: RawRow, field: CompositeField): string {
+  if (field.template?.trim()) {
+    const filled = field.template.replace(/\{([^{}]+)\}/g, (_, column: string) =>
+      getColumnValue(row, column.trim())
+    );
+    // Drop separators left dangling by empty placeholders: "Firma – " -> "Firma"
+    return filled
+      .replace(/\s+/g, " ")
+      .replace(/^[\s,;:/|–—-]+|[\s,;:/|–—-]+$/g, "")
+      .trim();
+  }
+  return field.columns
+    .map((column) => getColumnValue(row, column))
+    .filter(Boolean)
+    .join(field.separator);
+}
+
+const joinAddition = (...parts: string[]): string => parts.filter(Boolean).join(", ");
+
+const joinWords = (...parts: string[]): string => parts.filter(Boolean).join(" ");
+
+// Salutation line ("Frau Dr.") and name line ("Anna Schulz") following DIN 5008
+const personLines = (
+  person: ParsedName,
+  options: MappingOptions
+): { salutation: string; name: string; shortName: string } => {
+  const salutation = options.includeSalutation
+    ? normalizeSalutation(person.salutation, options.neutralSalutation)
+    : "";
+  // Without a salutation the title stays in front of the name
+  const titleWithSalutation = options.titlePlacement === "salutation" && salutation !== "";
+  const nameTitle = options.titlePlacement === "omit" || titleWithSalutation ? "" : person.title;
+  return {
+    salutation: joinWords(salutation, titleWithSalutation ? person.title : ""),
+    name: formatParsedName({ ...person, title: nameTitle }),
+    // "A. Schulz" for a contact line that would not fit in full
+    shortName: joinWords(person.firstName ? `${person.firstName[0]}.` : "", person.lastName),
+  };
+};
+
+export function composeRecipient(
+  person: ParsedName,
+  organisation: string,
+  addition: string,
+  options: MappingOptions = DEFAULT_MAPPING_OPTIONS
+): { name: string; addition: string } {
+  const lines = personLines(person, options);
+  const hasPerson = lines.name !== "";
+  if (!hasPerson && !organisation) return { name: "", addition };
+
+  if (organisation && (!hasPerson || options.organisationStrategy === "company")) {
+    if (!hasPerson) return { name: organisation, addition };
+    // Shorten the contact person before letting ZUSATZ run over its limit
+    const contactLines = [
+      joinWords(lines.salutation, lines.name),
+      lines.name,
+      lines.shortName,
+    ].map((name) => `z. Hd. ${name}`);
+    const contactLine =
+      contactLines.find((line) => joinAddition(line, addition).length <= ZUSATZ_MAX_LENGTH) ??
+      contactLines[0];
+    return { name: organisation, addition: joinAddition(contactLine, addition) };
+  }
+
+  const careOf = organisation ? `c/o ${organisation}` : "";
+  const fullName = joinWords(lines.salutation, lines.name);
+  if (fullName.length <= NAME_MAX_LENGTH || options.salutationOverflow === "name") {
+    return { name: fullName, addition: joinAddition(careOf, addition) };
+  }
+  // Too long for NAME: the salutation line moves into ZUSATZ
+  return { name: lines.name, addition: joinAddition(lines.salutation, careOf, addition) };
+}
+
 export function mapRow(
   row: RawRow,
   index: number,
-  mapping?: Record<string, string>
+  mapping?: Record<string, string>,
+  composites?: Record<string, CompositeField>,
+  options: MappingOptions = DEFAULT_MAPPING_OPTIONS,
+  transforms?: Record<string, Transform[]>,
+  countryAliases?: Record<string, string>
 ): MappedAddress {
   const mapped = mapColumns(row, mapping);
+  Object.entries(composites ?? {}).forEach(([target, field]) => {
+    mapped[target] = composeValue(row, field);
+  });
+  Object.entries(transforms ?? {}).forEach(([target, steps]) => {
+    if (steps.length > 0) mapped[target] = applyTransforms(mapped[target], steps);
+  });
 
-  const firstName = mapped["first_name"] || "";
-  const lastName = mapped["last_name"] || "";
-  const fullName = createFullName(firstName, lastName);
-
-  const street = mapped["street"];
-  const [strasse, nummer] = splitStreetNumber(street);
-
-  const addressAddition = mapped["address_addition"] || "";
-  const addressType = mapAddressType(addressAddition);
+  // A mapped full-name column wins; rows where it is empty fall back to the two parts
+  const parsedName = parseFullName(mapped["full_name"]);
+  const person: ParsedName = formatParsedName(parsedName)
+    ? parsedName
+    : {
+        ...parsedName,
+        firstName: cleanValue(mapped["first_name"]),
+        lastName: cleanValue(mapped["last_name"]),
+      };
+  // A company found in the full-name column counts as the organisation
+  const organisation = cleanValue(mapped["organisation"]) || person.company;
+  // A mapped salutation column wins over one found in the full name
+  const personOnly: ParsedName = {
+    ...person,
+    company: "",
+    salutation: cleanValue(mapped["salutation"]) || person.salutation,
+  };
 
-  const countryResult = mapCountry(mapped["country"]);
   const postalCode = mapped["postal_code"];
+  // Rows without a country get one from the shape of their postal code where possible
+  const countryValue = cleanValue(mapped["country"]);
+  const inferred = countryValue
+    ? null
+    : inferCountry(postalCode, mapped["city"], options.defaultCountry);
+  const countryResult: ReturnType<typeof mapCountry> = inferred?.code
+    ? { code: inferred.code }
+    : mapCountry(countryValue, countryAliases, options.defaultCountry);
+
+  // The number order in the street depends on the destination country
+  const streetResult = resolveStreetNumber(
+    mapped["street"],
+    mapped["house_number"],
+    countryResult.code
+  );
+
+  const addressAddition = cleanValue(mapped["address_addition"]);
+  // A mapped address-type column wins; unknown or empty values fall back to the street and addition
+  const addressTypeValue = cleanValue(mapped["address_type"]);
+  const addressType =
+    resolveAddressType(addressTypeValue, options.addressTypeValues) ??
+    (streetResult.poBox ? "POBOX" : mapAddressType(addressAddition));
+  // Text after the house number ("Hinterhaus") moves to the address addition
+  const recipient = composeRecipient(
+    personOnly,
+    organisation,
+    joinAddition(addressAddition, streetResult.addition),
+    options
+  );
+
+  // A fallback country says nothing about the postal code, so "1234" must not become the
+  // German "01234" just because the default country is DEU
+  const countryIsFallback = Boolean((inferred && !inferred.code) || countryResult.unmappedOriginal);
+  const postalCodeValue = cleanValue(postalCode);
 
   const result: MappedAddress = {
-    NAME: cleanValue(fullName),
-    ZUSATZ: cleanValue(addressAddition),
-    STRASSE: cleanValue(strasse),
-    NUMMER: cleanValue(nummer),
-    PLZ: cleanValue(postalCode),
+    NAME: cleanValue(recipient.name),
+    ZUSATZ: cleanValue(recipient.addition),
+    STRASSE: cleanValue(streetResult.street),
+    NUMMER: cleanValue(streetResult.number),
+    // "D-12345", "1234ab" and similar unambiguous spellings are normalised per country
+    PLZ: countryIsFallback
+      ? postalCodeValue
+      : checkPostalCode(postalCodeValue, countryResult.code).value,
     STADT: cleanValue(mapped["city"] || ""),
     LAND: countryResult.code,
     ADRESS_TYP: addressType,
-    REFERENZ: index + 1,
+    REFERENZ: cleanValue(mapped["reference"]) || index + 1,
   };
 
   // Track original unmapped country value if it couldn't be resolved
   if (countryResult.unmappedOriginal) {
     result.LAND_UNMAPPED_ORIGINAL = countryResult.unmappedOriginal;
   }
+  if (countryResult.fuzzyOriginal) {
+    result.LAND_FUZZY_ORIGINAL = countryResult.fuzzyOriginal;
+  }
+  if (countryResult.suggestions) {
+    result.LAND_SUGGESTIONS = countryResult.suggestions;
+  }
+  if (inferred) {
+    result.LAND_SOURCE = inferred.code ? "inferred" : "default";
+    if (inferred.candidates.length) result.LAND_SUGGESTIONS = inferred.candidates;
+  }
+
+  if (addressTypeValue && !resolveAddressType(addressTypeValue, options.addressTypeValues)) {
+    result.ADRESS_TYP_UNMAPPED_ORIGINAL = addressTypeValue;
+  }
+
+  if (streetResult.conflict) {
+    result.NUMMER_CONFLICT = streetResult.conflict;
+  }
+
+  if (streetResult.confidence !== "high") {
+    result.NUMMER_CONFIDENCE = streetResult.confidence;
+  }
+
+  const confidence = cleanValue(row[CONFIDENCE_COLUMN]);
+  if (confidence === "medium" || confidence === "low") {
+    result.PARSE_CONFIDENCE = confidence;
+  }
+
+  const source = [cleanValue(row[SOURCE_COLUMN]), cleanValue(row[SHEET_COLUMN])]
+    .filter(Boolean)
+    .join(" – ");
+  if (source) {
+    result.SOURCE = source;
+  }
 
   return result;
 }
 
 export function mapData(
   rows: RawRow[],
-  mapping?: Record<string, string>
+  mapping?: Record<string, string>,
+  composites?: Record<string, CompositeField>,
+  options?: MappingOptions,
+  transforms?: Record<string, Transform[]>,
+  countryAliases?: Record<string, string>
 ): MappedAddress[] {
-  return rows.map((row, index) => mapRow(row, index, mapping));
+  return rows.map((row, index) =>
+    mapRow(row, index, mapping, composites, options, transforms, countryAliases)
+  );
 }
 
 export function validateMaxLengths(
   row: MappedAddress
 ): string[] {
   const limits: Record<string, number> = {
-    NAME: 50,
-    ZUSATZ: 50,
+    NAME: NAME_MAX_LENGTH,
+    ZUSATZ: ZUSATZ_MAX_LENGTH,
     STRASSE: 40,
     NUMMER: 7,
     PLZ: 9,
@@ -237,12 +562,68 @@ export function validateMaxLengths(
   const warnings: string[] = [];
   
   // Check unmapped country warning
+  const countrySuggestions = row.LAND_SUGGESTIONS?.length
+    ? ` (did you mean ${row.LAND_SUGGESTIONS.map(countryLabel).join(", ")}?)`
+    : "";
   if (row.LAND_UNMAPPED_ORIGINAL) {
     warnings.push(
-      `LAND could not be mapped from "${row.LAND_UNMAPPED_ORIGINAL}", defaulted to ${row.LAND}`
+      `LAND could not be mapped from "${row.LAND_UNMAPPED_ORIGINAL}", defaulted to ${row.LAND}${countrySuggestions}`
+    );
+  }
+  if (row.LAND_SOURCE === "default" && row.LAND_SUGGESTIONS?.length) {
+    warnings.push(
+      `LAND is empty and PLZ "${row.PLZ}" fits ${row.LAND_SUGGESTIONS.map(countryLabel).join(" or ")}, defaulted to ${row.LAND}`
+    );
+  }
+  if (row.LAND_FUZZY_ORIGINAL) {
+    warnings.push(
+      `LAND "${row.LAND_FUZZY_ORIGINAL}" was read as ${countryLabel(row.LAND)}, please check${countrySuggestions}`
     );
   }
   
+  if (row.ADRESS_TYP_UNMAPPED_ORIGINAL) {
+    warnings.push(
+      `ADRESS_TYP could not be mapped from "${row.ADRESS_TYP_UNMAPPED_ORIGINAL}", defaulted to ${row.ADRESS_TYP}`
+    );
+  }
+
+  const postalCheck = checkPostalCode(row.PLZ, row.LAND);
+  if (postalCheck.valid === false) {
+    warnings.push(
+      `PLZ "${row.PLZ}" does not match the postal code format of ${row.LAND} (expected ${postalCheck.expected})`
+    );
+  }
+
+  const cityCheck = checkRowCity(row);
+  if (cityCheck?.status === "unknownPostalCode") {
+    warnings.push(`PLZ "${row.PLZ}" is not a known German postal code`);
+  } else if (cityCheck?.status === "spelling") {
+    warnings.push(`STADT "${row.STADT}" is spelled "${cityCheck.suggestion}" for PLZ ${row.PLZ}`);
+  } else if (cityCheck?.status === "mismatch") {
+    const places = cityCheck.suggestion
+      ? `did you mean "${cityCheck.suggestion}"?`
+      : `expected ${cityCheck.places.slice(0, 3).join(", ")}${cityCheck.places.length > 3 ? ", …" : ""}`;
+    warnings.push(`STADT "${row.STADT}" does not match PLZ ${row.PLZ} (${places})`);
+  }
+
+  if (row.NUMMER_CONFIDENCE) {
+    warnings.push(
+      `House number was split from the street with ${row.NUMMER_CONFIDENCE} confidence, please check STRASSE and NUMMER`
+    );
+  }
+
+  if (row.PARSE_CONFIDENCE) {
+    warnings.push(
+      `Address was recognised from free text with ${row.PARSE_CONFIDENCE} confidence, please check`
+    );
+  }
+
+  if (row.NUMMER_CONFLICT) {
+    warnings.push(
+      `STRASSE contains house number "${row.NUMMER_CONFLICT}" but NUMMER is "${row.NUMMER}"`
+    );
+  }
+
   (Object.keys(limits) as Array<keyof MappedAddress>).forEach((col) => {
     if (col === "LAND_UNMAPPED_ORIGINAL") return; // Skip internal field
     const maxLen = limits[col];
@@ -273,4 +654,47 @@ export function validateMaxLengths(
 
   return warnings;
 }
-  
\ No newline at end of file
+  
+
+const UNIQUE_REFERENCE_WARNING = "REFERENZ must be unique";
+
+// Warnings of a single row without the ones that depend on other rows, for reuse in buildWarnings
+export function ownWarnings(warnings: { [key: number]: string[] }, index: number): string[] {
+  return (warnings[index] ?? []).filter((warning) => warning !== UNIQUE_REFERENCE_WARNING);
+}
+
+// `known` returns the still valid warnings of rows that did not change, so editing one
+// row doesn't validate all others again
+export function buildWarnings(
+  rows: MappedAddress[],
+  known?: (index: number) => string[] | undefined
+): { [key: number]: string[] } {
+  const warningsMap: { [key: number]: string[] } = {};
+  // Keyed by the exported text, so the mapped reference "7" clashes with row number 7
+  const refIndexMap = new Map<string, number[]>();
+
+  rows.forEach((row, index) => {
+    const rowWarnings = known?.(index) ?? validateMaxLengths(row);
+    if (rowWarnings.length > 0) {
+      warningsMap[index] = rowWarnings;
+    }
+
+    const reference = String(row.REFERENZ);
+    const indices = refIndexMap.get(reference) ?? [];
+    indices.push(index);
+    refIndexMap.set(reference, indices);
+  });
+
+  refIndexMap.forEach((indices) => {
+    if (indices.length > 1) {
+      indices.forEach((idx) => {
+        warningsMap[idx] = [
+          ...(warningsMap[idx] ?? []),
+          UNIQUE_REFERENCE_WARNING,
+        ];
+      });
+    }
+  });
+
+  return warningsMap;
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { isCompanyName, parseFullName } from "@/lib/names";
+import type { ParsedName } from "@/lib/names";
+
+type Case = [value: string, expected: Partial<ParsedName>];
+
+const PERSON_CASES: Case[] = [
+  // "Nachname, Vorname" order
+  ["Schulz, Anna", { firstName: "Anna", lastName: "Schulz" }],
+  [
+    "Müller-Lüdenscheidt, Dr. Hans",
+    { title: "Dr.", firstName: "Hans", lastName: "Müller-Lüdenscheidt" },
+  ],
+  ["von Weizsäcker, Richard", { firstName: "Richard", lastName: "von Weizsäcker" }],
+
+  // Compound titles
+  ["Dr. med. Erika Mustermann", { title: "Dr. med.", firstName: "Erika", lastName: "Mustermann" }],
+  ["Prof. Dr. Hans Meier", { title: "Prof. Dr.", firstName: "Hans", lastName: "Meier" }],
+  ["Dipl.-Ing. Peter Schmidt", { title: "Dipl.-Ing.", firstName: "Peter", lastName: "Schmidt" }],
+  [
+    "Herr Prof. Dr. med. Hans Meier",
+    { salutation: "Herr", title: "Prof. Dr. med.", firstName: "Hans", lastName: "Meier" },
+  ],
+
+  // Name particles stay with the last name
+  ["Karl von Habsburg", { firstName: "Karl", lastName: "von Habsburg" }],
+  ["Ludwig van Beethoven", { firstName: "Ludwig", lastName: "van Beethoven" }],
+  ["Jan van der Berg", { firstName: "Jan", lastName: "van der Berg" }],
+  ["Maria de la Cruz", { firstName: "Maria", lastName: "de la Cruz" }],
+  [
+    "Karl-Theodor von und zu Guttenberg",
+    { firstName: "Karl-Theodor", lastName: "von und zu Guttenberg" },
+  ],
+];
+
+describe("isCompanyName", () => {
+  it.each([
+    "Sportverein Musterstadt e.V.",
+    "Sportverein Musterstadt e. V.",
+    "Müller & Co.",
+    "Müller & Co. KG",
+    "Acme S.A.",
+    "Dupont S.A.R.L.",
+    "Beispiel GmbH",
+    "Beispiel GmbH & Co. KG",
+    "Musterbau AG, Niederlassung Köln",
+    "Example Ltd.",
+    "Example Inc",
+    "Holding (SE)",
+    "Stiftung Warentest",
+    "Praxis Dr. Weber",
+  ])("detects %j", (value) => {
+    expect(isCompanyName(value)).toBe(true);
+  });
+
+  it.each(["Hans Se", "Anna Ag", "Erika Mustermann", "Kg Müller", "Coco Schmidt"])(
+    "does not take %j for a company",
+    (value) => {
+      expect(isCompanyName(value)).toBe(false);
+    }
+  );
+});
+
+describe("parseFullName", () => {
+  it.each(PERSON_CASES)("splits %j", (value, expected) => {
+    expect(parseFullName(value)).toMatchObject({ company: "", ...expected });
+  });
+
+  it("keeps a company with a legal form ending in a period whole", () => {
+    expect(parseFullName("Sportverein Musterstadt e.V.")).toMatchObject({
+      company: "Sportverein Musterstadt e.V.",
+      firstName: "",
+      lastName: "",
+    });
+  });
+
+  it("splits a person whose last name resembles a legal form", () => {
+    expect(parseFullName("Hans Se")).toMatchObject({
+      firstName: "Hans",
+      lastName: "Se",
+      company: "",
+    });
+  });
+
+  it("splits salutation, title and names", () => {
+    expect(parseFullName("Frau Dr. Erika Mustermann")).toMatchObject({
+      salutation: "Frau",
+      title: "Dr.",
+      firstName: "Erika",
+      lastName: "Mustermann",
+    });
+  });
+});
@@ -0,0 +1,141 @@
+// Splitting of single-column person names into salutation, title, first and last name
+
+export interface ParsedName {
+  salutation: string;
+  title: string;
+  firstName: string;
+  lastName: string;
+  // Set when the value looks like an organisation rather than a person
+  company: string;
+}
+
+// Legal forms are matched case-sensitively, so a name like "Hans Se" is no company; they
+// may end with a period, so the end is a lookahead instead of \b
+const LEGAL_FORM_PATTERN =
+  /\b(GmbH|mbH|AG|KG|OHG|GbR|UG|e\.\s?V\.|SE|Ltd\.?|Inc\.?|LLC|S\.A\.|S\.A\.R\.L\.|B\.V\.|Co\.)(?=\s|$|[,)])/;
+const ORGANISATION_WORD_PATTERN = /\b(Verlag|Stiftung|Institut|Universität|Klinik|Praxis)\b/i;
+
+const SALUTATIONS = [
+  "herr", "herrn", "frau", "fräulein", "familie", "fam.",
+  "mr.", "mr", "mrs.", "mrs", "ms.", "ms", "miss", "mx.",
+  "monsieur", "m.", "madame", "mme", "mme.", "mlle",
+  "dhr.", "dhr", "mevr.", "mevr", "mevrouw", "de heer",
+];
+
+// Academic and professional titles, matched token by token ("Prof. Dr. med.")
+const TITLE_TOKEN_PATTERN =
+  /^(dr\.?|prof\.?|med\.?|dent\.?|vet\.?|jur\.?|phil\.?|rer\.?|nat\.?|pol\.?|oec\.?|h\.\s?c\.?|habil\.?|dr\.-ing\.?|dr\.\s?-?ing\.?|dipl\.-[a-zäöü]+\.?|dipl\.?|ing\.?|mag\.?|priv\.-doz\.?|pd|ma|msc|bsc|mba|phd|ll\.?m\.?)$/i;
+
+// Name particles that belong to the last name ("van Beethoven", "de la Cruz")
+const PARTICLES = new Set([
+  "von", "vom", "zu", "zum", "zur", "und", "van", "der", "den", "ter", "ten", "de", "del",
+  "della", "di", "da", "du", "la", "le", "dos", "das", "y", "af", "av",
+]);
+
+const SUFFIX_PATTERN = /^(jr\.?|sr\.?|junior|senior|i{2,3}|iv)$/i;
+
+export function isCompanyName(value: string): boolean {
+  return LEGAL_FORM_PATTERN.test(value) || ORGANISATION_WORD_PATTERN.test(value);
+}
+
+const takeSalutation = (tokens: string[]): string => {
+  const twoWords = tokens.slice(0, 2).join(" ").toLowerCase();
+  if (SALUTATIONS.includes(twoWords)) return tokens.splice(0, 2).join(" ");
+  if (tokens.length > 1 && SALUTATIONS.includes(tokens[0].toLowerCase())) {
+    return tokens.shift()!;
+  }
+  return "";
+};
+
+const takeTitles = (tokens: string[]): string[] => {
+  const titles: string[] = [];
+  // Keep at least one token for the name itself
+  while (tokens.length > 1 && TITLE_TOKEN_PATTERN.test(tokens[0])) {
+    titles.push(tokens.shift()!);
+  }
+  return titles;
+};
+
+const isParticle = (token: string): boolean => PARTICLES.has(token.toLowerCase());
+
+const tokenize = (value: string): string[] =>
+  value
+    .replace(/\s+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+
+export function parseFullName(value: unknown): ParsedName {
+  const parsed: ParsedName = { salutation: "", title: "", firstName: "", lastName: "", company: "" };
+  const text = value == null ? "" : String(value).replace(/\s+/g, " ").trim();
+  if (!text) return parsed;
+
+  if (isCompanyName(text)) {
+    parsed.company = text;
+    return parsed;
+  }
+
+  const commaIndex = text.indexOf(",");
+  if (commaIndex > 0) {
+    // "Nachname, Vorname" – titles and salutation may sit on either side
+    const lastTokens = tokenize(text.slice(0, commaIndex));
+    const firstTokens = tokenize(text.slice(commaIndex + 1));
+    const salutation = takeSalutation(lastTokens) || takeSalutation(firstTokens);
+    const titles = [...takeTitles(lastTokens), ...takeTitles(firstTokens)];
+    parsed.salutation = salutation;
+    parsed.title = titles.join(" ");
+    parsed.lastName = lastTokens.join(" ");
+    parsed.firstName = firstTokens.join(" ");
+    return parsed;
+  }
+
+  const tokens = tokenize(text);
+  parsed.salutation = takeSalutation(tokens);
+  parsed.title = takeTitles(tokens).join(" ");
+
+  const suffixes: string[] = [];
+  while (tokens.length > 2 && SUFFIX_PATTERN.test(tokens[tokens.length - 1])) {
+    suffixes.unshift(tokens.pop()!);
+  }
+
+  if (tokens.length === 1) {
+    parsed.lastName = tokens[0];
+  } else {
+    // Last name: final token plus any particles before it, but never the first token
+    let start = tokens.length - 1;
+    while (start > 1 && isParticle(tokens[start - 1])) start--;
+    parsed.firstName = tokens.slice(0, start).join(" ");
+    parsed.lastName = tokens.slice(start).join(" ");
+  }
+  if (suffixes.length) {
+    parsed.lastName = [parsed.lastName, ...suffixes].join(" ");
+  }
+  return parsed;
+}
+
+// Source values recognised as male / female / family, matched after lower-casing
+const MALE_SALUTATIONS = new Set([
+  "herr", "herrn", "hr.", "hr", "m", "male", "mann", "maennlich", "männlich",
+  "mr", "mr.", "monsieur", "m.", "dhr", "dhr.", "de heer", "sir",
+]);
+const FEMALE_SALUTATIONS = new Set([
+  "frau", "fr.", "fr", "w", "f", "female", "weiblich", "fräulein", "frl.",
+  "mrs", "mrs.", "ms", "ms.", "miss", "madame", "mme", "mme.", "mlle", "mevr", "mevr.", "mevrouw",
+]);
+const FAMILY_SALUTATIONS = new Set(["familie", "fam.", "fam", "family", "famille", "familie."]);
+
+// DIN 5008 salutation for the address field ("Herrn" in the accusative); anything else,
+// including "divers" or an empty value, gets the gender-neutral fallback
+export function normalizeSalutation(value: unknown, neutral = ""): string {
+  const key = value == null ? "" : String(value).trim().toLowerCase();
+  if (MALE_SALUTATIONS.has(key)) return "Herrn";
+  if (FEMALE_SALUTATIONS.has(key)) return "Frau";
+  if (FAMILY_SALUTATIONS.has(key)) return "Familie";
+  return neutral.trim();
+}
+
+// Name line for the label: title, first and last name in natural order, or the company
+export function formatParsedName(name: ParsedName): string {
+  if (name.company) return name.company;
+  return [name.title, name.firstName, name.lastName].filter(Boolean).join(" ");
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { checkPostalCode, inferCountry } from "@/lib/postalCodes";
+
+describe("inferCountry", () => {
+  it("infers the only country whose shape fits", () => {
+    expect(inferCountry("10115", "Berlin", "DEU")).toEqual({ code: "DEU", candidates: [] });
+    expect(inferCountry("1011 AB", "Amsterdam", "DEU")).toEqual({ code: "NLD", candidates: [] });
+  });
+
+  it("tells Austria and Switzerland apart by the city", () => {
+    expect(inferCountry("1010", "Wien", "DEU").code).toBe("AUT");
+    expect(inferCountry("8001", "Zürich", "DEU").code).toBe("CHE");
+  });
+
+  it("leaves ambiguous codes to the default country, also when it fits", () => {
+    expect(inferCountry("1234", "Irgendwo", "DEU")).toEqual({
+      code: null,
+      candidates: ["AUT", "CHE"],
+    });
+    expect(inferCountry("8001", "Irgendwo", "CHE")).toEqual({
+      code: null,
+      candidates: ["AUT", "CHE"],
+    });
+    expect(inferCountry("75001", "Paris", "FRA")).toEqual({
+      code: null,
+      candidates: ["DEU", "FRA"],
+    });
+  });
+
+  it("infers the default country when only its format fits", () => {
+    expect(inferCountry("00-950", "Warszawa", "POL")).toEqual({ code: "POL", candidates: [] });
+  });
+});
+
+describe("checkPostalCode", () => {
+  it.each([
+    ["D-12345", "DEU", "12345"],
+    ["1067", "DEU", "01067"],
+    ["1234ab", "NLD", "1234 AB"],
+    ["CH-8001", "CHE", "8001"],
+    ["sw1a1aa", "GBR", "SW1A 1AA"],
+  ])("normalises %j for %s", (value, country, expected) => {
+    expect(checkPostalCode(value, country)).toEqual({ value: expected, valid: true });
+  });
+
+  it("reports the expected format of invalid codes", () => {
+    expect(checkPostalCode("123", "DEU")).toEqual({ value: "123", valid: false, expected: "12345" });
+  });
+});
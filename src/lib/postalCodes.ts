@@ -0,0 +1,232 @@
+// Postal code formats per country (ISO alpha-3) and country inference from postal code and city
+import countriesData from "@/assets/countries.json";
+
+export interface PostalCodeRule {
+  // Format of a valid, normalised postal code
+  pattern: RegExp;
+  // Shown in warnings as the expected format
+  example: string;
+  // Rebuilds the canonical spelling from the code without spaces and hyphens
+  format?: (compact: string) => string | null;
+}
+
+// Splits a compact code into groups: "1234AB" -> "1234 AB"
+const splitAt =
+  (position: number, separator = " ", compactPattern?: RegExp) =>
+  (compact: string): string | null =>
+    !compactPattern || compactPattern.test(compact)
+      ? `${compact.slice(0, position)}${separator}${compact.slice(position)}`
+      : null;
+
+const fourDigits: PostalCodeRule = { pattern: /^\d{4}$/, example: "1234" };
+const fiveDigits: PostalCodeRule = { pattern: /^\d{5}$/, example: "12345" };
+const threeTwoDigits: PostalCodeRule = {
+  pattern: /^\d{3} \d{2}$/,
+  example: "123 45",
+  format: splitAt(3, " ", /^\d{5}$/),
+};
+
+export const POSTAL_CODE_RULES: Record<string, PostalCodeRule> = {
+  DEU: {
+    ...fiveDigits,
+    // Spreadsheets drop the leading zero of codes like 01067 (Dresden)
+    format: (compact) => (/^\d{4}$/.test(compact) ? `0${compact}` : null),
+  },
+  AUT: fourDigits,
+  CHE: fourDigits,
+  LIE: { pattern: /^94\d{2}$/, example: "9490" },
+  LUX: fourDigits,
+  BEL: fourDigits,
+  NLD: {
+    pattern: /^[1-9]\d{3} [A-Z]{2}$/,
+    example: "1234 AB",
+    format: splitAt(4, " ", /^\d{4}[A-Z]{2}$/),
+  },
+  DNK: fourDigits,
+  NOR: fourDigits,
+  HUN: fourDigits,
+  SVN: fourDigits,
+  BGR: fourDigits,
+  AUS: fourDigits,
+  NZL: fourDigits,
+  FRA: fiveDigits,
+  MCO: { pattern: /^980\d{2}$/, example: "98000" },
+  ITA: fiveDigits,
+  ESP: fiveDigits,
+  FIN: fiveDigits,
+  EST: fiveDigits,
+  LTU: fiveDigits,
+  HRV: fiveDigits,
+  TUR: fiveDigits,
+  SWE: threeTwoDigits,
+  CZE: threeTwoDigits,
+  SVK: threeTwoDigits,
+  GRC: threeTwoDigits,
+  POL: { pattern: /^\d{2}-\d{3}$/, example: "12-345", format: splitAt(2, "-", /^\d{5}$/) },
+  PRT: { pattern: /^\d{4}-\d{3}$/, example: "1234-567", format: splitAt(4, "-", /^\d{7}$/) },
+  ROU: { pattern: /^\d{6}$/, example: "123456" },
+  GBR: {
+    pattern: /^[A-Z]{1,2}\d[A-Z\d]? \d[A-Z]{2}$/,
+    example: "SW1A 1AA",
+    format: (compact) =>
+      /^[A-Z]{1,2}\d[A-Z\d]?\d[A-Z]{2}$/.test(compact)
+        ? `${compact.slice(0, -3)} ${compact.slice(-3)}`
+        : null,
+  },
+  IRL: {
+    pattern: /^[A-Z]\d[\dW] [A-Z\d]{4}$/,
+    example: "D02 X285",
+    format: splitAt(3, " ", /^[A-Z]\d[\dW][A-Z\d]{4}$/),
+  },
+  USA: {
+    pattern: /^\d{5}(-\d{4})?$/,
+    example: "12345 or 12345-6789",
+    format: splitAt(5, "-", /^\d{9}$/),
+  },
+  CAN: {
+    pattern: /^[A-Z]\d[A-Z] \d[A-Z]\d$/,
+    example: "A1A 1A1",
+    format: splitAt(3, " ", /^[A-Z]\d[A-Z]\d[A-Z]\d$/),
+  },
+  JPN: { pattern: /^\d{3}-\d{4}$/, example: "123-4567", format: splitAt(3, "-", /^\d{7}$/) },
+  BRA: { pattern: /^\d{5}-\d{3}$/, example: "12345-678", format: splitAt(5, "-", /^\d{8}$/) },
+};
+
+// Country prefixes written in front of postal codes: ISO codes and vehicle
+// registration codes ("D-12345", "CH-8001", "NL-1234 AB")
+const VEHICLE_CODES: Record<string, string[]> = {
+  DEU: ["D"],
+  AUT: ["A"],
+  CHE: ["CH"],
+  LUX: ["L"],
+  BEL: ["B"],
+  FRA: ["F"],
+  ITA: ["I"],
+  ESP: ["E"],
+  PRT: ["P"],
+  SWE: ["S"],
+  NOR: ["N"],
+  FIN: ["FIN", "SF"],
+  HUN: ["H"],
+  CZE: ["CZ"],
+  POL: ["PL"],
+  DNK: ["DK"],
+  SVN: ["SLO"],
+  HRV: ["HR"],
+  LIE: ["FL"],
+  MCO: ["MC"],
+};
+
+const countryPrefixes = (country: string): string[] => {
+  const entry = countriesData.find((c) => c.alpha3Code === country);
+  return [country, entry?.alpha2Code ?? "", ...(VEHICLE_CODES[country] ?? [])].filter(Boolean);
+};
+
+export interface PostalCodeCheck {
+  value: string;
+  // null when there is no rule for the country
+  valid: boolean | null;
+  expected?: string;
+}
+
+// Normalises spacing, case and country prefixes, and only rewrites the value when
+// the result is a valid code
+export function checkPostalCode(value: unknown, country: string): PostalCodeCheck {
+  const original = value == null ? "" : String(value).replace(/\s+/g, " ").trim();
+  const rule = POSTAL_CODE_RULES[country];
+  if (!original || !rule) return { value: original, valid: null };
+
+  const upper = original.toUpperCase();
+  const prefix = countryPrefixes(country).find((code) =>
+    new RegExp(`^${code}[- ]`).test(upper)
+  );
+  const candidates = [upper, ...(prefix ? [upper.slice(prefix.length + 1).trim()] : [])];
+  for (const candidate of candidates) {
+    if (rule.pattern.test(candidate)) return { value: candidate, valid: true };
+    const formatted = rule.format?.(candidate.replace(/[\s-]/g, ""));
+    if (formatted && rule.pattern.test(formatted)) return { value: formatted, valid: true };
+  }
+  return { value: original, valid: false, expected: rule.example };
+}
+
+// Shapes used to guess the country of rows without one, in order of preference
+const INFERENCE_PATTERNS: [string, RegExp][] = [
+  ["DEU", /^\d{5}$/],
+  ["AUT", /^\d{4}$/],
+  ["CHE", /^\d{4}$/],
+  ["NLD", /^\d{4} ?[A-Z]{2}$/],
+  ["GBR", /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/],
+];
+
+const normalizeCity = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/ß/g, "ss")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\bst\b\.?/g, "sankt")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+// Larger towns that tell Austrian and Swiss four-digit postal codes apart; towns
+// existing in both countries (Baden) are left out
+const AUSTRIAN_CITIES = new Set(
+  [
+    "Wien", "Graz", "Linz", "Salzburg", "Innsbruck", "Klagenfurt", "Klagenfurt am Wörthersee",
+    "Villach", "Wels", "Sankt Pölten", "Dornbirn", "Wiener Neustadt", "Steyr", "Feldkirch",
+    "Bregenz", "Leonding", "Klosterneuburg", "Leoben", "Krems", "Krems an der Donau", "Traun",
+    "Amstetten", "Lustenau", "Kapfenberg", "Mödling", "Hallein", "Kufstein", "Traiskirchen",
+    "Schwechat", "Braunau am Inn", "Stockerau", "Saalfelden", "Ansfelden", "Tulln",
+    "Hohenems", "Spittal an der Drau", "Telfs", "Ternitz", "Perchtoldsdorf", "Bludenz",
+    "Bad Ischl", "Eisenstadt", "Schwaz", "Hall in Tirol", "Gmunden", "Wolfsberg", "Lienz",
+    "Vöcklabruck",
+  ].map(normalizeCity)
+);
+
+const SWISS_CITIES = new Set(
+  [
+    "Zürich", "Genève", "Genf", "Geneva", "Basel", "Bern", "Lausanne", "Winterthur", "Luzern",
+    "Lucerne", "Sankt Gallen", "Lugano", "Biel", "Bienne", "Biel/Bienne", "Thun", "Köniz",
+    "La Chaux-de-Fonds", "Fribourg", "Schaffhausen", "Chur", "Vernier", "Neuchâtel", "Uster",
+    "Sion", "Lancy", "Emmen", "Yverdon-les-Bains", "Zug", "Kriens", "Rapperswil-Jona",
+    "Dübendorf", "Montreux", "Dietikon", "Frauenfeld", "Wetzikon", "Baar", "Riehen",
+    "Wädenswil", "Allschwil", "Renens", "Kreuzlingen", "Aarau", "Olten", "Solothurn",
+    "Bellinzona", "Locarno", "Davos",
+  ].map(normalizeCity)
+);
+
+export interface CountryInference {
+  // Country the row most likely belongs to, null when the shape fits several
+  code: string | null;
+  // Countries whose postal code shape fits, when no single one could be picked
+  candidates: string[];
+}
+
+export function inferCountry(
+  postalCode: unknown,
+  city: unknown,
+  fallback: string
+): CountryInference {
+  const postal = postalCode == null ? "" : String(postalCode).trim().toUpperCase();
+  if (!postal) return { code: null, candidates: [] };
+
+  const shapes = INFERENCE_PATTERNS.filter(([, pattern]) => pattern.test(postal)).map(
+    ([code]) => code
+  );
+  // The default country's own format counts as well ("75001" with FRA)
+  const candidates =
+    POSTAL_CODE_RULES[fallback]?.pattern.test(postal) && !shapes.includes(fallback)
+      ? [...shapes, fallback]
+      : shapes;
+  const cityKey = city == null ? "" : normalizeCity(String(city));
+  if (candidates.includes("AUT") && AUSTRIAN_CITIES.has(cityKey)) {
+    return { code: "AUT", candidates: [] };
+  }
+  if (candidates.includes("CHE") && SWISS_CITIES.has(cityKey)) {
+    return { code: "CHE", candidates: [] };
+  }
+  if (candidates.length === 1) return { code: candidates[0], candidates: [] };
+  // Several shapes fit: the caller uses the default country and marks it as a default,
+  // even when it is one of the candidates
+  return { code: null, candidates };
+}
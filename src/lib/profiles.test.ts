@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import {
+  applicableComposites,
+  applicableSelections,
+  createProfile,
+  headerSignature,
+  mergeProfiles,
+  parseProfilesFile,
+  serializeProfiles,
+  suggestProfile,
+} from "@/lib/profiles";
+import { DEFAULT_MAPPING_OPTIONS, SHEET_COLUMN, SOURCE_COLUMN } from "@/lib/mapper";
+
+const HEADERS = ["Vorname", "Nachname", "Straße", "PLZ", "Ort"];
+
+const profile = (name: string, headers = HEADERS) =>
+  createProfile(name, headers, {
+    first_name: "Vorname",
+    last_name: "Nachname",
+    street: "Straße",
+    postal_code: "PLZ",
+    city: "Ort",
+  });
+
+describe("headerSignature", () => {
+  it("normalises and sorts the headers", () => {
+    expect(headerSignature(["Straße", "PLZ", "plz", "Vor-Name"])).toEqual([
+      "plz",
+      "strasse",
+      "vor name",
+    ]);
+  });
+
+  it("leaves out generated columns but keeps similar file columns", () => {
+    expect(headerSignature(["Name", "Source", SOURCE_COLUMN, SHEET_COLUMN])).toEqual([
+      "name",
+      "source",
+    ]);
+  });
+});
+
+describe("createProfile", () => {
+  it("drops empty selections, composites without a selection and the default country", () => {
+    const created = createProfile(
+      " Kunden ",
+      HEADERS,
+      { first_name: "Vorname", last_name: undefined },
+      {
+        first_name: { columns: ["Vorname"], separator: " " },
+        city: { columns: ["Ort"], separator: " " },
+      },
+      { ...DEFAULT_MAPPING_OPTIONS, defaultCountry: "AUT" },
+      { first_name: [], city: [{ type: "trim" }] }
+    );
+    expect(created.name).toBe("Kunden");
+    expect(created.selections).toEqual({ first_name: "Vorname" });
+    expect(Object.keys(created.composites ?? {})).toEqual(["first_name"]);
+    expect(created.options?.defaultCountry).toBeUndefined();
+    expect(created.transforms).toEqual({ city: [{ type: "trim" }] });
+  });
+});
+
+describe("suggestProfile", () => {
+  it("suggests a profile for a file with the same columns in another spelling", () => {
+    const saved = profile("Kunden");
+    const suggestion = suggestProfile([saved], ["vorname", "NACHNAME", "Strasse", "PLZ", "Ort"]);
+    expect(suggestion?.profile.id).toBe(saved.id);
+    expect(suggestion?.similarity).toBe(1);
+  });
+
+  it("prefers the closest signature", () => {
+    const loose = profile("Alt", [...HEADERS, "Telefon"]);
+    const exact = profile("Neu");
+    expect(suggestProfile([loose, exact], HEADERS)?.profile.name).toBe("Neu");
+  });
+
+  it("ignores the generated source column", () => {
+    expect(suggestProfile([profile("Kunden")], [...HEADERS, SOURCE_COLUMN])).not.toBeNull();
+  });
+
+  it("skips profiles whose columns are missing from the file", () => {
+    expect(suggestProfile([profile("Kunden")], ["Vorname", "Nachname", "PLZ", "Ort"])).toBeNull();
+  });
+
+  it("skips files with too few shared columns", () => {
+    const headers = [...HEADERS, "Telefon", "E-Mail", "Geburtstag"];
+    expect(suggestProfile([profile("Kunden")], headers)).toBeNull();
+  });
+});
+
+describe("applicable selections and composites", () => {
+  it("resolves profile columns against the current spelling", () => {
+    const saved = createProfile(
+      "Kunden",
+      HEADERS,
+      { street: "Straße", address_addition: "Firma" },
+      { address_addition: { columns: ["Firma", "Abteilung"], separator: " – " } }
+    );
+    expect(applicableSelections(saved, ["STRASSE", "PLZ"])).toEqual({ street: "STRASSE" });
+    expect(applicableComposites(saved, ["Firma"])).toEqual({});
+    expect(applicableComposites(saved, ["firma", "Abteilung"])).toEqual({
+      address_addition: { columns: ["firma", "Abteilung"], separator: " – " },
+    });
+  });
+});
+
+describe("parseProfilesFile", () => {
+  it("reads an exported file", () => {
+    const saved = profile("Kunden");
+    expect(parseProfilesFile(serializeProfiles([saved]))).toEqual([saved]);
+  });
+
+  it("accepts a bare array and fills in missing ids", () => {
+    const [parsed] = parseProfilesFile(
+      JSON.stringify([{ name: "Kunden", selections: { city: "Ort" }, signature: ["ort"] }])
+    );
+    expect(parsed.id).toEqual(expect.any(String));
+    expect(parsed.updatedAt).toEqual(expect.any(String));
+  });
+
+  it.each([
+    ["not JSON", "{", "The profile file is not valid JSON"],
+    ["without profiles", '{"version":1}', "The file does not contain mapping profiles"],
+    [
+      "with invalid profiles only",
+      '{"profiles":[{"name":"Kunden"}]}',
+      "The file does not contain any valid mapping profile",
+    ],
+  ])("rejects a file %s", (_, text, message) => {
+    expect(() => parseProfilesFile(text)).toThrow(message);
+  });
+});
+
+describe("mergeProfiles", () => {
+  it("replaces profiles with the same id or name and keeps the others", () => {
+    const kunden = profile("Kunden");
+    const lieferanten = profile("Lieferanten");
+    const partner = profile("Partner");
+    const renamed = { ...kunden, name: "Kundenliste" };
+    const sameName = profile("LIEFERANTEN");
+
+    const merged = mergeProfiles([kunden, lieferanten, partner], [renamed, sameName]);
+    expect(merged.map((entry) => entry.name)).toEqual([
+      "Partner",
+      "Kundenliste",
+      "LIEFERANTEN",
+    ]);
+  });
+});
@@ -0,0 +1,218 @@
+// Named column-mapping profiles, stored in localStorage and recognised by the file's header set
+import { normalizeHeader } from "@/lib/headerMatching";
+import { SHEET_COLUMN, SOURCE_COLUMN } from "@/lib/mapper";
+import type { CompositeField, MappingOptions } from "@/lib/mapper";
+import type { Transform } from "@/lib/transforms";
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  // Target field key -> source column name
+  selections: Record<string, string>;
+  // Target field key -> combined columns, for targets fed by several columns
+  composites?: Record<string, CompositeField>;
+  // Target field key -> ordered value transforms
+  transforms?: Record<string, Transform[]>;
+  // Name composition and other mapping options
+  options?: Partial<MappingOptions>;
+  // Normalised, sorted header names of the file the profile was saved from
+  signature: string[];
+  updatedAt: string;
+}
+
+export interface ProfileSuggestion {
+  profile: MappingProfile;
+  similarity: number;
+}
+
+const PROFILES_STORAGE_KEY = "deutsche-post-mail-labels-profiles";
+const PROFILES_FILE_VERSION = 1;
+// Share of headers two files must have in common for a profile to be suggested
+const MIN_SIGNATURE_SIMILARITY = 0.8;
+
+// Columns added by the importer itself are not part of a file's format. Their reserved keys
+// are compared as-is: normalised, "__source" would also drop a "Source" column of the file
+const GENERATED_COLUMNS = new Set([SOURCE_COLUMN, SHEET_COLUMN]);
+
+export function headerSignature(headers: string[]): string[] {
+  const normalized = headers
+    .filter((header) => !GENERATED_COLUMNS.has(header))
+    .map(normalizeHeader)
+    .filter(Boolean);
+  return [...new Set(normalized)].sort();
+}
+
+const isProfile = (value: unknown): value is MappingProfile => {
+  if (typeof value !== "object" || value === null) return false;
+  const profile = value as Partial<MappingProfile>;
+  return (
+    typeof profile.name === "string" &&
+    typeof profile.selections === "object" &&
+    profile.selections !== null &&
+    Array.isArray(profile.signature)
+  );
+};
+
+export function loadProfiles(): MappingProfile[] {
+  try {
+    const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return Array.isArray(parsed) ? parsed.filter(isProfile) : [];
+    }
+  } catch (error) {
+    console.error("Failed to load mapping profiles:", error);
+  }
+  return [];
+}
+
+export function saveProfiles(profiles: MappingProfile[]) {
+  try {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  } catch (error) {
+    console.error("Failed to save mapping profiles:", error);
+  }
+}
+
+export function createProfile(
+  name: string,
+  headers: string[],
+  selections: Record<string, string | undefined>,
+  composites: Record<string, CompositeField | undefined> = {},
+  options?: MappingOptions,
+  transforms: Record<string, Transform[] | undefined> = {}
+): MappingProfile {
+  const definedSelections: Record<string, string> = {};
+  Object.entries(selections).forEach(([target, source]) => {
+    if (source) definedSelections[target] = source;
+  });
+  const definedComposites: Record<string, CompositeField> = {};
+  Object.entries(composites).forEach(([target, field]) => {
+    if (field && definedSelections[target]) definedComposites[target] = field;
+  });
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    selections: definedSelections,
+    composites: definedComposites,
+    // The default country is an app setting rather than part of a file's format
+    options: options && { ...options, defaultCountry: undefined },
+    transforms: Object.fromEntries(
+      Object.entries(transforms).filter(
+        (entry): entry is [string, Transform[]] => (entry[1]?.length ?? 0) > 0
+      )
+    ),
+    signature: headerSignature(headers),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// Jaccard similarity of the two header sets
+const signatureSimilarity = (a: string[], b: string[]): number => {
+  const setB = new Set(b);
+  const shared = a.filter((header) => setB.has(header)).length;
+  const union = new Set([...a, ...b]).size;
+  return union === 0 ? 0 : shared / union;
+};
+
+// Find a profile column in the current file, tolerating case and spelling variants
+const resolveColumn = (source: string, headers: string[]): string | undefined =>
+  headers.find((header) => header === source) ??
+  headers.find((header) => normalizeHeader(header) === normalizeHeader(source));
+
+export function suggestProfile(
+  profiles: MappingProfile[],
+  headers: string[]
+): ProfileSuggestion | null {
+  const signature = headerSignature(headers);
+  let best: ProfileSuggestion | null = null;
+
+  profiles.forEach((profile) => {
+    // Every column the profile uses must exist in the file
+    const usable = Object.values(profile.selections).every((source) =>
+      resolveColumn(source, headers)
+    );
+    if (!usable) return;
+    const similarity = signatureSimilarity(signature, profile.signature);
+    if (similarity >= MIN_SIGNATURE_SIMILARITY && (!best || similarity > best.similarity)) {
+      best = { profile, similarity };
+    }
+  });
+
+  return best;
+}
+
+// Keep only selections whose column exists in the current file
+export function applicableSelections(
+  profile: MappingProfile,
+  headers: string[]
+): Record<string, string> {
+  const selections: Record<string, string> = {};
+  Object.entries(profile.selections).forEach(([target, source]) => {
+    const header = resolveColumn(source, headers);
+    if (header) selections[target] = header;
+  });
+  return selections;
+}
+
+// Combined columns are only restored when all of their columns exist in the current file
+export function applicableComposites(
+  profile: MappingProfile,
+  headers: string[]
+): Record<string, CompositeField> {
+  const composites: Record<string, CompositeField> = {};
+  Object.entries(profile.composites ?? {}).forEach(([target, field]) => {
+    const columns = field.columns.map((column) => resolveColumn(column, headers));
+    if (columns.every(Boolean)) {
+      composites[target] = { ...field, columns: columns as string[] };
+    }
+  });
+  return composites;
+}
+
+export function serializeProfiles(profiles: MappingProfile[]): string {
+  return JSON.stringify({ version: PROFILES_FILE_VERSION, profiles }, null, 2);
+}
+
+export function parseProfilesFile(text: string): MappingProfile[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The profile file is not valid JSON");
+  }
+  // Accept both the export wrapper and a bare array
+  const list = Array.isArray(data)
+    ? data
+    : typeof data === "object" && data !== null && "profiles" in data
+      ? (data as { profiles: unknown }).profiles
+      : null;
+  if (!Array.isArray(list)) {
+    throw new Error("The file does not contain mapping profiles");
+  }
+  const profiles = list.filter(isProfile);
+  if (profiles.length === 0) {
+    throw new Error("The file does not contain any valid mapping profile");
+  }
+  return profiles.map((profile) => ({
+    ...profile,
+    id: typeof profile.id === "string" && profile.id ? profile.id : crypto.randomUUID(),
+    signature: profile.signature.map(String),
+    updatedAt: profile.updatedAt ?? new Date().toISOString(),
+  }));
+}
+
+// Imported profiles replace stored ones with the same id or name
+export function mergeProfiles(
+  existing: MappingProfile[],
+  incoming: MappingProfile[]
+): MappingProfile[] {
+  const merged = existing.filter(
+    (profile) =>
+      !incoming.some(
+        (other) =>
+          other.id === profile.id || other.name.toLowerCase() === profile.name.toLowerCase()
+      )
+  );
+  return [...merged, ...incoming];
+}
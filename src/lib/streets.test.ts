@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { parseStreet } from "@/lib/streets";
+import type { ParsedStreet } from "@/lib/streets";
+
+type Case = [line: string, country: string, expected: Partial<ParsedStreet>];
+
+const CASES: Case[] = [
+  // Plain German streets
+  ["Hauptstraße 5", "DEU", { street: "Hauptstraße", number: "5", confidence: "high" }],
+  ["Hauptstr. 12", "DEU", { street: "Hauptstr.", number: "12", confidence: "high" }],
+  ["Hauptstraße 12a", "DEU", { street: "Hauptstraße", number: "12a", confidence: "high" }],
+  ["Hauptstraße 12 A", "DEU", { street: "Hauptstraße", number: "12A", confidence: "high" }],
+  ["Hauptstraße, 7", "DEU", { street: "Hauptstraße", number: "7", confidence: "high" }],
+  ["Am Markt", "DEU", { street: "Am Markt", number: "", confidence: "high" }],
+  ["", "DEU", { street: "", number: "", confidence: "high" }],
+
+  // Ranges and combined numbers
+  ["Hauptstr. 12-14", "DEU", { street: "Hauptstr.", number: "12-14", confidence: "high" }],
+  ["Hauptstr. 12 - 14", "DEU", { street: "Hauptstr.", number: "12-14", confidence: "high" }],
+  ["Lindenallee 3/5", "DEU", { street: "Lindenallee", number: "3/5", confidence: "high" }],
+  ["Lindenallee 12a-12c", "DEU", { street: "Lindenallee", number: "12a-12c", confidence: "high" }],
+
+  // Letter suffixes with spaces or slashes
+  ["Am Markt 5 a", "DEU", { street: "Am Markt", number: "5a", confidence: "high" }],
+  ["Am Markt 12/A", "DEU", { street: "Am Markt", number: "12/A", confidence: "high" }],
+
+  // Additions after the number
+  ["Weg 3 / Hinterhaus", "DEU", { street: "Weg", number: "3", addition: "Hinterhaus" }],
+  ["Weg 3, Hinterhaus", "DEU", { street: "Weg", number: "3", addition: "Hinterhaus" }],
+  ["Weg 3 - Seitenflügel", "DEU", { street: "Weg", number: "3", addition: "Seitenflügel" }],
+  ["Gartenweg 2 c/o Meier", "DEU", { street: "Gartenweg", number: "2", addition: "c/o Meier" }],
+  ["Gartenweg 2a c/o Meier", "DEU", { street: "Gartenweg", number: "2a", addition: "c/o Meier" }],
+  ["Bahnhofstr. 10 App. 5", "DEU", { street: "Bahnhofstr.", number: "10", addition: "App. 5" }],
+  ["Bahnhofstr. 10, Whg. 3", "DEU", { street: "Bahnhofstr.", number: "10", addition: "Whg. 3" }],
+  ["Hauptstraße 5 Whg 3", "DEU", { street: "Hauptstraße", number: "5", addition: "Whg 3" }],
+  ["Hauptstraße 5 Haus B", "DEU", { street: "Hauptstraße", number: "5", addition: "Haus B" }],
+  ["Hauptstraße 5 EG", "DEU", { street: "Hauptstraße", number: "5", addition: "EG" }],
+
+  // Numbered street names
+  ["Straße des 17. Juni 4", "DEU", { street: "Straße des 17. Juni", number: "4", confidence: "high" }],
+  ["Straße des 17. Juni", "DEU", { street: "Straße des 17. Juni", number: "", confidence: "low" }],
+  ["Q 7, 24", "DEU", { street: "Q 7", number: "24", confidence: "high" }],
+  ["B 4 3", "DEU", { street: "B 4", number: "3", confidence: "high" }],
+
+  // Number glued to the street
+  ["Hauptstraße12a", "DEU", { street: "Hauptstraße", number: "12a", confidence: "medium" }],
+
+  // Romance additions and number order
+  ["Rue de Rivoli 12 bis", "FRA", { street: "Rue de Rivoli", number: "12 bis", confidence: "high" }],
+  ["12 bis rue de Rivoli", "FRA", { street: "rue de Rivoli", number: "12 bis", confidence: "high" }],
+  ["5 ter, avenue Foch", "FRA", { street: "avenue Foch", number: "5 ter", confidence: "high" }],
+  ["Calle Mayor 5, 2º izq.", "ESP", { street: "Calle Mayor", number: "5", addition: "2º izq." }],
+  ["Via Roma 10", "ITA", { street: "Via Roma", number: "10", confidence: "high" }],
+
+  // Number first in English-speaking countries
+  ["10 Downing Street", "GBR", { street: "Downing Street", number: "10", confidence: "high" }],
+  ["1/3 Kingsway", "GBR", { street: "Kingsway", number: "1/3", confidence: "high" }],
+  ["221B Baker Street", "GBR", { street: "Baker Street", number: "221B", confidence: "high" }],
+  ["1600 Pennsylvania Avenue", "USA", { street: "Pennsylvania Avenue", number: "1600" }],
+  ["Downing Street 10", "GBR", { street: "Downing Street", number: "10", confidence: "medium" }],
+  ["10 Downing Street", "DEU", { street: "Downing Street", number: "10", confidence: "medium" }],
+
+  // Dutch short additions
+  ["Keizersgracht 123 hs", "NLD", { street: "Keizersgracht", number: "123", addition: "hs", confidence: "medium" }],
+
+  // PO boxes
+  ["Postfach 12 34 56", "DEU", { street: "Postfach", number: "123456", poBox: true }],
+  ["Postfach 1234", "DEU", { street: "Postfach", number: "1234", poBox: true }],
+  ["PF 99", "DEU", { street: "PF", number: "99", poBox: true }],
+  ["P.O. Box 42", "USA", { street: "P.O. Box", number: "42", poBox: true }],
+  ["BP 12", "FRA", { street: "BP", number: "12", poBox: true }],
+];
+
+describe("parseStreet", () => {
+  it.each(CASES)("splits %j (%s)", (line, country, expected) => {
+    expect(parseStreet(line, country)).toMatchObject(expected);
+  });
+
+  it("does not read the c of c/o as a letter suffix", () => {
+    expect(parseStreet("Gartenweg 2 c/o Meier", "DEU").number).not.toBe("2c");
+  });
+
+  it("does not take an apartment number for the house number", () => {
+    const parsed = parseStreet("Bahnhofstr. 10 App. 5", "DEU");
+    expect(parsed.street).toBe("Bahnhofstr.");
+    expect(parsed.number).toBe("10");
+  });
+});
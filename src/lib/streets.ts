@@ -0,0 +1,131 @@
+// Splitting street lines into street, house number and trailing addition, aware of the
+// number order customary in the destination country
+import type { ParseConfidence } from "@/lib/mapper";
+
+export interface ParsedStreet {
+  street: string;
+  number: string;
+  // Text after the number such as "Hinterhaus" or "2º izq.", meant for ZUSATZ
+  addition: string;
+  confidence: ParseConfidence;
+  poBox: boolean;
+}
+
+type NumberOrder = "trailing" | "leading" | "either";
+
+// Countries writing the number before the street ("10 Downing Street"); unlisted ones
+// put it after ("Hauptstraße 5")
+const NUMBER_ORDER: Record<string, NumberOrder> = {
+  USA: "leading",
+  CAN: "leading",
+  GBR: "leading",
+  IRL: "leading",
+  AUS: "leading",
+  NZL: "leading",
+  ZAF: "leading",
+  FRA: "either",
+  BEL: "either",
+  LUX: "either",
+  MCO: "either",
+};
+
+// A single number with an optional letter, also spaced or slashed: "12", "5 a", "12/A";
+// the "c" of "2 c/o Meier" is not a letter suffix
+const SINGLE_NUMBER = String.raw`\d{1,5}(?:\s?[-/]?\s?[a-z](?!\p{L}|/\p{L}))?`;
+// Ranges and combined numbers ("12-14", "1/3") and Romance additions ("12 bis")
+const HOUSE_NUMBER = String.raw`${SINGLE_NUMBER}(?:\s?[-–/]\s?${SINGLE_NUMBER})?(?:\s(?:bis|ter|quater)\b)?`;
+
+const TRAILING_PATTERN = new RegExp(
+  String.raw`^(.*?\p{L}.*?)[\s,]+(${HOUSE_NUMBER})(?:\s*(?:[,/;]|\s-\s)\s*(.+))?$`,
+  "iu"
+);
+const LEADING_PATTERN = new RegExp(String.raw`^(${HOUSE_NUMBER}),?\s+(.*\p{L}.*)$`, "iu");
+// Number followed by a short unseparated addition: "Keizersgracht 123 hs"
+const SPACED_ADDITION_PATTERN = new RegExp(
+  String.raw`^(.*?\p{L}.*?)\s+(${HOUSE_NUMBER})\s+([^\d\s][^\d]{0,14})$`,
+  "iu"
+);
+// Mannheim's grid squares are street names with a digit: "Q 7, 24"
+const SQUARE_PATTERN = /^([a-u]\s?\d{1,2}),?\s+(\d{1,3}[a-z]?)$/i;
+// Number glued to the street name: "Hauptstraße12a"
+const GLUED_PATTERN = /^(.*\p{L}\.?)(\d{1,5}[a-z]?)$/iu;
+// Apartment, floor and care-of parts after the number: "10 App. 5", "2 c/o Meier", "5 Whg 3"
+const ADDITION_MARKER_PATTERN =
+  /^(.*?\p{L}.*?\d(?:\s?[a-z])?)\s*[,;/]?\s+((?:c\/o|app|apt|appartement|whg|wohnung|zi|zimmer|etage|og|eg|dg|haus|hinterhaus|vorderhaus|seitenflügel|gartenhaus)(?=[\s.]|$).*)$/iu;
+const PO_BOX_PATTERN =
+  /^(postfach|pf|postbox|po box|p\.\s?o\.\s?box|boîte postale|bp|apartado|casella postale)\.?\s*:?\s*(\d[\d\s]*)$/iu;
+
+// "5 a" -> "5a", "12 - 14" -> "12-14"; "12 bis" keeps its space
+const normalizeNumber = (number: string): string =>
+  number
+    .replace(/\s*[-–]\s*/g, "-")
+    .replace(/\s*\/\s*/g, "/")
+    .replace(/(\d)\s+([a-z])(?!\p{L})/giu, "$1$2");
+
+const result = (
+  street: string,
+  number: string,
+  confidence: ParseConfidence,
+  addition = "",
+  poBox = false
+): ParsedStreet => ({
+  street: street.replace(/[\s,]+$/, ""),
+  number: normalizeNumber(number),
+  addition,
+  confidence,
+  poBox,
+});
+
+export function parseStreet(value: unknown, country = ""): ParsedStreet {
+  const line = value == null ? "" : String(value).replace(/\s+/g, " ").trim();
+  if (!line) return result("", "", "high");
+
+  const poBox = line.match(PO_BOX_PATTERN);
+  if (poBox) return result(poBox[1], poBox[2].replace(/\s/g, ""), "high", "", true);
+
+  const marked = line.match(ADDITION_MARKER_PATTERN);
+  if (marked) {
+    const head = parseStreet(marked[1], country);
+    return { ...head, addition: [head.addition, marked[2]].filter(Boolean).join(", ") };
+  }
+
+  const square = line.match(SQUARE_PATTERN);
+  if (square && ["", "DEU"].includes(country.toUpperCase())) {
+    return result(square[1], square[2], "high");
+  }
+
+  const order = NUMBER_ORDER[country.toUpperCase()] ?? "trailing";
+  const trailing = line.match(TRAILING_PATTERN);
+  const leading = line.match(LEADING_PATTERN);
+  const fromTrailing = (confidence: ParseConfidence) =>
+    result(trailing![1], trailing![2], confidence, trailing![3] ?? "");
+  const fromLeading = (confidence: ParseConfidence) => result(leading![2], leading![1], confidence);
+
+  if (order === "leading") {
+    if (leading) return fromLeading("high");
+    if (trailing) return fromTrailing("medium");
+  } else {
+    if (trailing) return fromTrailing("high");
+    if (leading) return fromLeading(order === "either" ? "high" : "medium");
+  }
+
+  const spaced = line.match(SPACED_ADDITION_PATTERN);
+  if (spaced) return result(spaced[1], spaced[2], "medium", spaced[3]);
+
+  const glued = line.match(GLUED_PATTERN);
+  if (glued) return result(glued[1], glued[2], "medium");
+
+  // Last resort: any token with a digit, preferring the end of the line
+  const tokens = line.split(" ");
+  if (tokens.length >= 2) {
+    if (/\d/.test(tokens[tokens.length - 1])) {
+      return result(tokens.slice(0, -1).join(" "), tokens[tokens.length - 1], "low");
+    }
+    if (/\d/.test(tokens[0])) {
+      return result(tokens.slice(1).join(" "), tokens[0], "low");
+    }
+  }
+
+  // No number at all, e.g. "Am Markt" or a farm name; digits that fit no pattern are suspicious
+  return result(line, "", /\d/.test(line) ? "low" : "high");
+}
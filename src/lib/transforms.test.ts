@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyTransform,
+  applyTransforms,
+  createTransform,
+  validateTransform,
+} from "@/lib/transforms";
+import type { Transform } from "@/lib/transforms";
+
+type Case = [value: string, transform: Transform, expected: string];
+
+const CASES: Case[] = [
+  ["  Haupt   straße ", { type: "trim" }, "Haupt straße"],
+  ["MÜLLER-LÜDENSCHEIDT", { type: "titleCase" }, "Müller-Lüdenscheidt"],
+  ["LUDWIG VAN BEETHOVEN", { type: "titleCase" }, "Ludwig van Beethoven"],
+  ["o'brien", { type: "titleCase" }, "O'Brien"],
+  ["köln", { type: "upperCase" }, "KÖLN"],
+  ["KÖLN", { type: "lowerCase" }, "köln"],
+  [
+    "Hauptstr. 5",
+    { type: "regexReplace", pattern: "str\\.", replacement: "straße", flags: "gi" },
+    "Hauptstraße 5",
+  ],
+  ["'01067", { type: "stripPrefix", prefix: "'" }, "01067"],
+  ["01067", { type: "stripPrefix", prefix: "'" }, "01067"],
+  ["d", { type: "mapValues", entries: [{ from: "D", to: "DEU" }] }, "DEU"],
+  ["x", { type: "mapValues", entries: [{ from: "D", to: "DEU" }] }, "x"],
+  [" n/a ", { type: "emptyIfEquals", values: ["N/A", "-"] }, ""],
+  ["Nadja", { type: "emptyIfEquals", values: ["N/A", "-"] }, "Nadja"],
+];
+
+describe("applyTransform", () => {
+  it.each(CASES)("transforms %j with %o", (value, transform, expected) => {
+    expect(applyTransform(value, transform)).toBe(expected);
+  });
+
+  it("leaves the value unchanged for an invalid pattern", () => {
+    const invalid: Transform = { type: "regexReplace", pattern: "(", replacement: "", flags: "g" };
+    expect(applyTransform("Hauptstraße", invalid)).toBe("Hauptstraße");
+  });
+});
+
+describe("applyTransforms", () => {
+  it("runs the steps in order", () => {
+    const steps: Transform[] = [
+      { type: "stripPrefix", prefix: "'" },
+      { type: "trim" },
+      { type: "titleCase" },
+    ];
+    expect(applyTransforms("'  erika   MUSTERMANN", steps)).toBe("Erika Mustermann");
+  });
+
+  it("treats missing values as empty text", () => {
+    expect(applyTransforms(undefined, [{ type: "upperCase" }])).toBe("");
+    expect(applyTransforms(51147, [])).toBe("51147");
+  });
+});
+
+describe("validateTransform", () => {
+  it("reports empty and invalid patterns", () => {
+    expect(validateTransform(createTransform("regexReplace"))).toBe("Pattern is empty");
+    expect(
+      validateTransform({ type: "regexReplace", pattern: "(", replacement: "", flags: "g" })
+    ).toEqual(expect.any(String));
+    expect(validateTransform(createTransform("trim"))).toBeNull();
+  });
+});
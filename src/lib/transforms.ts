@@ -0,0 +1,107 @@
+// Per-target value transforms applied between column mapping and the final address fields
+
+export type Transform =
+  | { type: "trim" }
+  | { type: "titleCase" }
+  | { type: "upperCase" }
+  | { type: "lowerCase" }
+  | { type: "regexReplace"; pattern: string; replacement: string; flags: string }
+  | { type: "stripPrefix"; prefix: string }
+  | { type: "mapValues"; entries: { from: string; to: string }[] }
+  | { type: "emptyIfEquals"; values: string[] };
+
+export type TransformType = Transform["type"];
+
+export const TRANSFORM_LABELS: Record<TransformType, string> = {
+  trim: "Trim spaces",
+  titleCase: "Title case",
+  upperCase: "Upper case",
+  lowerCase: "Lower case",
+  regexReplace: "Regex replace",
+  stripPrefix: "Strip prefix",
+  mapValues: "Map values",
+  emptyIfEquals: "Empty if equals",
+};
+
+export function createTransform(type: TransformType): Transform {
+  switch (type) {
+    case "regexReplace":
+      return { type, pattern: "", replacement: "", flags: "gi" };
+    case "stripPrefix":
+      return { type, prefix: "" };
+    case "mapValues":
+      return { type, entries: [{ from: "", to: "" }] };
+    case "emptyIfEquals":
+      return { type, values: ["N/A", "n.a.", "-"] };
+    default:
+      return { type };
+  }
+}
+
+// Name particles stay lower case inside a title-cased value ("Ludwig van Beethoven")
+const LOWER_CASE_WORDS = new Set(["von", "van", "de", "der", "den", "del", "di", "da", "du", "zu", "und"]);
+
+const toTitleCase = (value: string): string =>
+  value
+    .toLowerCase()
+    .split(" ")
+    .map((word, idx) =>
+      idx > 0 && LOWER_CASE_WORDS.has(word)
+        ? word
+        : // Capitalise after word starts, hyphens and apostrophes: "Müller-Lüdenscheidt", "O'Brien"
+          word.replace(/(^|[-'’(])(\p{L})/gu, (_, boundary: string, letter: string) =>
+            boundary + letter.toUpperCase()
+          )
+    )
+    .join(" ");
+
+const buildRegex = (transform: Extract<Transform, { type: "regexReplace" }>): RegExp =>
+  new RegExp(transform.pattern, transform.flags);
+
+// Message for a transform that cannot run, e.g. an invalid regular expression
+export function validateTransform(transform: Transform): string | null {
+  if (transform.type === "regexReplace") {
+    if (!transform.pattern) return "Pattern is empty";
+    try {
+      buildRegex(transform);
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+  return null;
+}
+
+export function applyTransform(value: string, transform: Transform): string {
+  switch (transform.type) {
+    case "trim":
+      return value.replace(/\s+/g, " ").trim();
+    case "titleCase":
+      return toTitleCase(value);
+    case "upperCase":
+      return value.toUpperCase();
+    case "lowerCase":
+      return value.toLowerCase();
+    case "regexReplace":
+      // Invalid patterns leave the value unchanged; the editor shows the error
+      if (validateTransform(transform)) return value;
+      return value.replace(buildRegex(transform), transform.replacement);
+    case "stripPrefix":
+      return transform.prefix && value.startsWith(transform.prefix)
+        ? value.slice(transform.prefix.length)
+        : value;
+    case "mapValues": {
+      const key = value.trim().toLowerCase();
+      const entry = transform.entries.find((e) => e.from.trim().toLowerCase() === key);
+      return entry ? entry.to : value;
+    }
+    case "emptyIfEquals": {
+      const key = value.trim().toLowerCase();
+      return transform.values.some((v) => v.trim().toLowerCase() === key) ? "" : value;
+    }
+  }
+}
+
+export function applyTransforms(value: unknown, transforms: Transform[]): string {
+  const text = value == null ? "" : String(value);
+  return transforms.reduce((current, transform) => applyTransform(current, transform), text);
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { parseVCards, VCARD_HEADERS } from "@/lib/vcard";
+
+const vcard = (...lines: string[]) => ["BEGIN:VCARD", ...lines, "END:VCARD"].join("\r\n");
+
+const firstRow = (text: string) => parseVCards(text).rows[0];
+
+describe("parseVCards quoted-printable", () => {
+  it("decodes values with a declared charset", () => {
+    const row = firstRow(
+      vcard(
+        "VERSION:2.1",
+        "N:Muster;Max",
+        "ADR;WORK;CHARSET=UTF-8;ENCODING=QUOTED-PRINTABLE:;;Hauptstra=C3=9Fe 1;M=C3=BCnchen;;80331;"
+      )
+    );
+    expect(row).toMatchObject({ street: "Hauptstraße 1", city: "München" });
+  });
+
+  it("falls back to windows-1252 when bytes without a charset are not UTF-8", () => {
+    const row = firstRow(
+      vcard(
+        "VERSION:2.1",
+        "N:Muster;Max",
+        "ADR;HOME;ENCODING=QUOTED-PRINTABLE:;;Hauptstra=DFe 1;M=FCnchen;;80331;"
+      )
+    );
+    expect(row).toMatchObject({ street: "Hauptstraße 1", city: "München" });
+  });
+
+  it("reads UTF-8 bytes without a charset as UTF-8", () => {
+    const row = firstRow(
+      vcard("VERSION:2.1", "N;ENCODING=QUOTED-PRINTABLE:M=C3=BCller;J=C3=BCrgen")
+    );
+    expect(row).toMatchObject({ last_name: "Müller", first_name: "Jürgen" });
+  });
+
+  it("joins soft line breaks", () => {
+    const row = firstRow(
+      vcard(
+        "VERSION:2.1",
+        "N:Muster;Max",
+        "ADR;WORK;ENCODING=QUOTED-PRINTABLE:;;Heidestra=DFe 17;K=F6ln;;=",
+        "51147;Deutschland"
+      )
+    );
+    expect(row).toMatchObject({
+      street: "Heidestraße 17",
+      city: "Köln",
+      postal_code: "51147",
+      country: "Deutschland",
+    });
+  });
+});
+
+describe("parseVCards", () => {
+  it("unfolds continuation lines", () => {
+    const row = firstRow(
+      vcard("VERSION:3.0", "N:Mustermann;Erika;;;", "ORG:Beispiel G", " mbH;Einkauf")
+    );
+    expect(row).toMatchObject({ organisation: "Beispiel GmbH Einkauf" });
+  });
+
+  it("reads N with additional names and ORG units", () => {
+    const row = firstRow(
+      vcard("VERSION:3.0", "N:Mustermann;Erika;Maria;Dr.;", "ORG:Beispiel GmbH;Vertrieb")
+    );
+    expect(row).toMatchObject({
+      last_name: "Mustermann",
+      first_name: "Erika Maria",
+      organisation: "Beispiel GmbH Vertrieb",
+    });
+  });
+
+  it("splits FN when N is missing", () => {
+    const row = firstRow(vcard("VERSION:4.0", "FN:Erika Maria Mustermann"));
+    expect(row).toMatchObject({ first_name: "Erika Maria", last_name: "Mustermann" });
+  });
+
+  it.each([
+    [
+      "the preferred address",
+      [
+        "ADR;TYPE=home:;;Wohnweg 1;Bonn;;53111;",
+        "ADR;TYPE=work,pref:;;Büroplatz 2;Köln;;50667;",
+      ],
+      { street: "Büroplatz 2", adr_type: "work" },
+    ],
+    [
+      "the work address over home",
+      ["ADR;TYPE=home:;;Wohnweg 1;Bonn;;53111;", "ADR;TYPE=work:;;Büroplatz 2;Köln;;50667;"],
+      { street: "Büroplatz 2", adr_type: "work" },
+    ],
+    [
+      "the first untyped address",
+      ["ADR:;;Erster Weg 1;Bonn;;53111;", "ADR:;;Zweiter Weg 2;Köln;;50667;"],
+      { street: "Erster Weg 1", adr_type: "" },
+    ],
+  ])("picks %s", (_, addresses, expected) => {
+    const row = firstRow(vcard("VERSION:3.0", "N:Muster;Max", ...addresses));
+    expect(row).toMatchObject(expected);
+  });
+
+  it("moves the extended address and PO box into the address addition", () => {
+    const row = firstRow(
+      vcard("VERSION:3.0", "N:Muster;Max", "ADR:12 34;Hinterhaus;;Köln;;50667;")
+    );
+    expect(row).toMatchObject({ address_addition: "Hinterhaus, Postfach 12 34", street: "" });
+  });
+
+  it("skips empty cards and reports the mapping headers", () => {
+    const result = parseVCards(
+      [vcard("VERSION:3.0"), vcard("VERSION:3.0", "N:Muster;Max")].join("\r\n")
+    );
+    expect(result.rows).toHaveLength(1);
+    expect(result.headers).toEqual(VCARD_HEADERS);
+  });
+});
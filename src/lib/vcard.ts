@@ -0,0 +1,214 @@
+// vCard 2.1 / 3.0 / 4.0 parsing into rows keyed by mapping target names
+import type { RawRow } from "@/lib/mapper";
+import type { ImportResult } from "@/lib/importer";
+
+interface VCardProperty {
+  name: string;
+  params: Record<string, string[]>;
+  value: string;
+}
+
+// Column names match the mapping targets so the "Map Columns" step selects them automatically
+export const VCARD_HEADERS = [
+  "first_name",
+  "last_name",
+  "organisation",
+  "street",
+  "address_addition",
+  "postal_code",
+  "city",
+  "country",
+  "adr_type",
+];
+
+// Join folded lines: a leading space/tab (3.0/4.0) or a trailing "=" in quoted-printable (2.1)
+const unfoldLines = (text: string): string[] => {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const unfolded: string[] = [];
+
+  lines.forEach((line) => {
+    const previous = unfolded[unfolded.length - 1];
+    if (previous !== undefined && /^[ \t]/.test(line)) {
+      unfolded[unfolded.length - 1] = previous + line.slice(1);
+    } else if (
+      previous !== undefined &&
+      /ENCODING=QUOTED-PRINTABLE/i.test(previous) &&
+      previous.endsWith("=")
+    ) {
+      unfolded[unfolded.length - 1] = previous.slice(0, -1) + line;
+    } else {
+      unfolded.push(line);
+    }
+  });
+
+  return unfolded;
+};
+
+// Without a CHARSET, vCard 2.1 exports (Outlook, older phones) usually hold windows-1252 bytes
+const decodeQuotedPrintable = (value: string, charset: string | undefined): string => {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    const hex = value.slice(i + 1, i + 3);
+    if (value[i] === "=" && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(value.charCodeAt(i) & 0xff);
+    }
+  }
+  const decoded = new Uint8Array(bytes);
+  if (charset) {
+    try {
+      return new TextDecoder(charset).decode(decoded);
+    } catch {
+      // Unknown charset label: guess below
+    }
+  }
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(decoded);
+  } catch {
+    return new TextDecoder("windows-1252").decode(decoded);
+  }
+};
+
+const parseProperty = (line: string): VCardProperty | null => {
+  // The value starts at the first colon outside a quoted parameter value
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    if (line[i] === ":" && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [rawName, ...rawParams] = line.slice(0, colon).split(";");
+  // Drop the optional group prefix ("item1.ADR")
+  const name = rawName.split(".").pop()!.toUpperCase();
+  const params: Record<string, string[]> = {};
+
+  rawParams.forEach((param) => {
+    const eq = param.indexOf("=");
+    // vCard 2.1 allows bare parameters such as ";WORK;PREF"
+    const key = eq < 0 ? "TYPE" : param.slice(0, eq).toUpperCase();
+    const values = (eq < 0 ? param : param.slice(eq + 1))
+      .replace(/"/g, "")
+      .split(",")
+      .map((v) => v.trim().toUpperCase())
+      .filter(Boolean);
+    params[key] = [...(params[key] ?? []), ...values];
+  });
+
+  let value = line.slice(colon + 1);
+  if (params.ENCODING?.includes("QUOTED-PRINTABLE")) {
+    value = decodeQuotedPrintable(value, params.CHARSET?.[0]?.toLowerCase());
+  }
+
+  return { name, params, value };
+};
+
+// Split a structured value on unescaped semicolons and resolve escapes
+const splitStructured = (value: string): string[] => {
+  const parts: string[] = [];
+  let current = "";
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === "\\" && i + 1 < value.length) {
+      const next = value[++i];
+      current += next === "n" || next === "N" ? "\n" : next;
+    } else if (char === ";") {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map((part) => part.trim());
+};
+
+const joinLines = (value: string | undefined): string =>
+  (value ?? "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join(", ");
+
+const isPreferred = (prop: VCardProperty): boolean =>
+  Boolean(prop.params.TYPE?.includes("PREF") || prop.params.PREF?.includes("1"));
+
+// Preferred address first, then work before home, then file order
+const pickAddress = (addresses: VCardProperty[]): VCardProperty | undefined => {
+  const rank = (prop: VCardProperty) =>
+    isPreferred(prop) ? 0 : prop.params.TYPE?.includes("WORK") ? 1 : prop.params.TYPE?.includes("HOME") ? 2 : 3;
+  return [...addresses].sort((a, b) => rank(a) - rank(b))[0];
+};
+
+const buildRow = (properties: VCardProperty[]): RawRow | null => {
+  const find = (name: string) => properties.find((prop) => prop.name === name);
+  const row: RawRow = Object.fromEntries(VCARD_HEADERS.map((header) => [header, ""]));
+
+  const n = find("N");
+  if (n) {
+    const [family, given, additional] = splitStructured(n.value);
+    row.last_name = family;
+    row.first_name = [given, additional].filter(Boolean).join(" ");
+  } else {
+    // Fall back to the formatted name, assuming "Given Family" order
+    const fn = splitStructured(find("FN")?.value ?? "")[0] ?? "";
+    const parts = fn.split(/\s+/).filter(Boolean);
+    row.last_name = parts.length > 1 ? parts[parts.length - 1] : "";
+    row.first_name = parts.length > 1 ? parts.slice(0, -1).join(" ") : fn;
+  }
+
+  const org = find("ORG");
+  if (org) {
+    row.organisation = splitStructured(org.value).filter(Boolean).join(" ");
+  }
+
+  const address = pickAddress(properties.filter((prop) => prop.name === "ADR"));
+  if (address) {
+    const [poBox, extended, street, locality, , postalCode, country] = splitStructured(
+      address.value
+    );
+    row.street = joinLines(street);
+    row.address_addition = [joinLines(extended), poBox ? `Postfach ${poBox}` : ""]
+      .filter(Boolean)
+      .join(", ");
+    row.postal_code = postalCode ?? "";
+    row.city = locality ?? "";
+    row.country = country ?? "";
+    row.adr_type = (address.params.TYPE ?? [])
+      .filter((type) => type === "WORK" || type === "HOME")
+      .map((type) => type.toLowerCase())
+      .join(", ");
+  }
+
+  const hasContent = VCARD_HEADERS.some((header) => String(row[header]).trim() !== "");
+  return hasContent ? row : null;
+};
+
+export function parseVCards(text: string): ImportResult {
+  const rows: RawRow[] = [];
+  let current: VCardProperty[] | null = null;
+
+  unfoldLines(text).forEach((line) => {
+    if (/^BEGIN:VCARD$/i.test(line.trim())) {
+      current = [];
+      return;
+    }
+    if (/^END:VCARD$/i.test(line.trim())) {
+      const row = current ? buildRow(current) : null;
+      if (row) rows.push(row);
+      current = null;
+      return;
+    }
+    if (!current || !line.trim()) return;
+    const prop = parseProperty(line);
+    if (prop) current.push(prop);
+  });
+
+  return { rows, headers: VCARD_HEADERS };
+}
@@ -0,0 +1,107 @@
+// Runs parsing and mapping tasks in a Web Worker so large files don't block the UI
+import type { CompositeField, MappedAddress, MappingOptions, RawRow } from "@/lib/mapper";
+import type { CsvOptions, RawMatrix } from "@/lib/importer";
+import type { Transform } from "@/lib/transforms";
+
+export type WorkerTask =
+  | { type: "parseCsv"; bytes: Uint8Array; options?: CsvOptions }
+  | { type: "parseWorkbook"; bytes: Uint8Array }
+  | {
+      type: "mapRows";
+      rows: RawRow[];
+      // Target field -> source column
+      mapping: Record<string, string>;
+      composites?: Record<string, CompositeField>;
+      options?: MappingOptions;
+      transforms?: Record<string, Transform[]>;
+      countryAliases?: Record<string, string>;
+    }
+  | { type: "validateRows"; rows: MappedAddress[] };
+
+export interface WorkerResults {
+  parseCsv: { matrix: RawMatrix; options: CsvOptions };
+  parseWorkbook: { sheets: { name: string; matrix: RawMatrix }[] };
+  mapRows: { mapped: MappedAddress[]; warnings: { [key: number]: string[] } };
+  validateRows: { warnings: { [key: number]: string[] } };
+}
+
+export interface TaskProgress {
+  processed: number;
+  total?: number;
+}
+
+export type WorkerRequest = { id: number } & WorkerTask;
+
+export type WorkerResponse =
+  | { id: number; type: "progress"; progress: TaskProgress }
+  | { id: number; type: "result"; result: WorkerResults[WorkerTask["type"]] }
+  | { id: number; type: "error"; message: string };
+
+export interface RunningTask<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+export class TaskCancelledError extends Error {
+  constructor() {
+    super("Task was cancelled");
+    this.name = "TaskCancelledError";
+  }
+}
+
+let nextTaskId = 1;
+
+export function runWorkerTask<K extends WorkerTask["type"]>(
+  task: Extract<WorkerTask, { type: K }>,
+  onProgress?: (progress: TaskProgress) => void
+): RunningTask<WorkerResults[K]> {
+  const id = nextTaskId++;
+  // One worker per task: terminating it is the only way to stop synchronous parsing
+  const worker = new Worker(new URL("./import.worker.ts", import.meta.url), {
+    type: "module",
+  });
+  let settled = false;
+  let rejectTask: (error: Error) => void = () => {};
+
+  const promise = new Promise<WorkerResults[K]>((resolve, reject) => {
+    rejectTask = reject;
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      if (message.id !== id) return;
+      if (message.type === "progress") {
+        onProgress?.(message.progress);
+        return;
+      }
+      settled = true;
+      worker.terminate();
+      if (message.type === "result") {
+        resolve(message.result as WorkerResults[K]);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      settled = true;
+      worker.terminate();
+      reject(new Error(event.message || "Worker failed"));
+    };
+
+    worker.postMessage({ id, ...task } satisfies WorkerRequest);
+  });
+
+  const cancel = () => {
+    if (settled) return;
+    settled = true;
+    worker.terminate();
+    rejectTask(new TaskCancelledError());
+  };
+
+  return { promise, cancel };
+}
+
+export function formatProgress({ processed, total }: TaskProgress): string {
+  const done = processed.toLocaleString("en-US");
+  return total ? `${done} / ${total.toLocaleString("en-US")} rows` : `${done} rows`;
+}